@@ -0,0 +1,56 @@
+import { DEFAULT_API_URL, DEFAULT_WEB_URL } from './client';
+import type { HackMDAccount, HackMDPluginSettings } from './settings';
+import { HackMDError, HackMDErrorType, NoteFrontmatter } from './types';
+
+// Frontmatter key naming the account a note is synced with
+export const ACCOUNT_KEY = 'hackmd-account';
+
+// Account requests are made with, unnamed for the main one
+export type ResolvedAccount = Omit<HackMDAccount, 'name'> & { name?: string };
+
+/**
+ * Gets the token, servers and default permissions of an account
+ * @param name Name of an account profile, the main account when missing
+ * @throws HackMDError when no profile has that name
+ */
+export function resolveAccount(
+  settings: HackMDPluginSettings,
+  name?: string
+): ResolvedAccount {
+  if (!name) {
+    return {
+      accessToken: settings.accessToken,
+      apiUrl: settings.apiUrl,
+      webUrl: settings.webUrl,
+      readPermission: settings.defaultReadPermission,
+      writePermission: settings.defaultWritePermission,
+      commentPermission: settings.defaultCommentPermission,
+    };
+  }
+
+  const account = settings.accounts.find(profile => profile.name === name);
+  if (!account) {
+    throw new HackMDError(
+      HackMDErrorType.ACCOUNT_NOT_FOUND,
+      `No HackMD account is named "${name}". Add it under "Accounts" in the settings.`
+    );
+  }
+  return {
+    ...account,
+    apiUrl: account.apiUrl || DEFAULT_API_URL,
+    webUrl: account.webUrl || DEFAULT_WEB_URL,
+  };
+}
+
+/**
+ * Reads the account a note declares in its frontmatter
+ * @returns The account name, undefined when the key is missing or empty
+ */
+export function getFrontmatterAccount(
+  frontmatter: NoteFrontmatter | null
+): string | undefined {
+  const value = frontmatter?.[ACCOUNT_KEY];
+  return typeof value === 'string' && value.trim() !== ''
+    ? value.trim()
+    : undefined;
+}
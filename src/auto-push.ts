@@ -0,0 +1,110 @@
+import { CONSTANTS, HackMDError, HackMDErrorType } from './types';
+
+/**
+ * Debounces automatic pushes per note, backs off when HackMD rate limits us
+ * and stops pushing a note once a conflict is detected.
+ */
+export class AutoPushScheduler {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private backoffs = new Map<string, number>();
+  private suspended = new Set<string>();
+  private getDelay: () => number;
+  private push: (path: string) => Promise<void>;
+  private onError: (path: string, error: Error) => void;
+
+  /**
+   * @param getDelay Quiet period in milliseconds before pushing
+   * @param push Pushes the note at the given path
+   * @param onError Reports failures that stop the push
+   */
+  constructor(
+    getDelay: () => number,
+    push: (path: string) => Promise<void>,
+    onError: (path: string, error: Error) => void
+  ) {
+    this.getDelay = getDelay;
+    this.push = push;
+    this.onError = onError;
+  }
+
+  /**
+   * (Re)starts the quiet period of a note
+   */
+  schedule(path: string, delay = this.getDelay()): void {
+    if (this.suspended.has(path)) return;
+
+    this.cancel(path);
+    this.timers.set(
+      path,
+      setTimeout(() => this.run(path), delay)
+    );
+  }
+
+  cancel(path: string): void {
+    const timer = this.timers.get(path);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(path);
+    }
+  }
+
+  cancelAll(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  isSuspended(path: string): boolean {
+    return this.suspended.has(path);
+  }
+
+  /**
+   * Allows a suspended note to be pushed automatically again
+   */
+  resume(path: string): void {
+    this.suspended.delete(path);
+  }
+
+  /**
+   * Keeps pending pushes and suspensions attached to a renamed note
+   */
+  rename(oldPath: string, newPath: string): void {
+    if (this.suspended.delete(oldPath)) {
+      this.suspended.add(newPath);
+    }
+    if (this.timers.has(oldPath)) {
+      this.cancel(oldPath);
+      this.schedule(newPath);
+    }
+  }
+
+  private async run(path: string): Promise<void> {
+    this.timers.delete(path);
+    try {
+      await this.push(path);
+      this.backoffs.delete(path);
+    } catch (error) {
+      if (
+        error instanceof HackMDError &&
+        error.type === HackMDErrorType.RATE_LIMITED
+      ) {
+        const backoff = Math.min(
+          (this.backoffs.get(path) ?? this.getDelay()) * 2,
+          CONSTANTS.MAX_AUTO_PUSH_BACKOFF
+        );
+        this.backoffs.set(path, backoff);
+        this.schedule(path, backoff);
+        return;
+      }
+
+      if (
+        error instanceof HackMDError &&
+        (error.type === HackMDErrorType.SYNC_CONFLICT_REMOTE ||
+          error.type === HackMDErrorType.SYNC_UNRESOLVED_CONFLICT)
+      ) {
+        this.suspended.add(path);
+      }
+      this.backoffs.delete(path);
+      this.onError(path, error);
+    }
+  }
+}
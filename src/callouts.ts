@@ -0,0 +1,241 @@
+// Obsidian callout type and the HackMD container it is pushed as
+export interface CalloutMapping {
+  callout: string;
+  container: string;
+}
+
+export const DEFAULT_CALLOUT_MAPPINGS: CalloutMapping[] = [
+  { callout: 'note', container: 'info' },
+  { callout: 'success', container: 'success' },
+  { callout: 'warning', container: 'warning' },
+  { callout: 'danger', container: 'danger' },
+];
+
+// Container HackMD renders as a collapsible section
+const SPOILER = 'spoiler';
+const OPEN_STATE = '{state="open"}';
+
+// > [!type]+ Title, top-level callouts only
+const CALLOUT_HEADER = /^>\s?\[!([\w-]+)\]([+-]?)(?:\s+(.*?))?\s*$/;
+
+// :::type Title, or ::::spoiler wrapping the container of a foldable callout
+const CONTAINER_HEADER = /^(:{3,4})([\w-]+)(?:\s+(.*?))?\s*$/;
+
+const FENCE = /^(`{3,}|~{3,})/;
+
+// Lines of a block and what they are replaced with
+interface Block {
+  length: number;
+  replacement: string[];
+}
+
+/**
+ * Translates Obsidian callouts to HackMD containers, and back. Callouts of
+ * types without a mapping, and code, are left untouched. Foldable callouts
+ * are wrapped in a spoiler container.
+ */
+export class CalloutConverter {
+  private readonly mappings: CalloutMapping[];
+
+  constructor(mappings: CalloutMapping[]) {
+    this.mappings = mappings;
+  }
+
+  toRemote(body: string): string {
+    return mapBlocks(body, (lines, index) => this.readCallout(lines, index));
+  }
+
+  /**
+   * Turns containers back into callouts
+   * @param previous Bodies the vault had, e.g. at the last sync. A container
+   * the remote still has as it was pushed from them is restored as written,
+   * so types sharing a container keep theirs
+   */
+  toLocal(body: string, previous: string[] = []): string {
+    const pushedBlocks = new Map<string, string>();
+    // Lines of callouts as written, keyed by their content, for the prefix
+    // of nested quotes the push can't tell apart, e.g. `>>` and `> >`
+    const pushedLines = new Map<string, string>();
+    for (const local of previous) {
+      mapBlocks(local, (lines, index) => {
+        const block = this.readCallout(lines, index);
+        if (!block) return undefined;
+        const written = lines.slice(index, index + block.length);
+        if (!pushedBlocks.has(block.replacement.join('\n'))) {
+          pushedBlocks.set(block.replacement.join('\n'), written.join('\n'));
+        }
+        for (const line of written.slice(1)) {
+          if (!pushedLines.has(unquote(line))) {
+            pushedLines.set(unquote(line), line);
+          }
+        }
+        return block;
+      });
+    }
+
+    return mapBlocks(body, (lines, index) => {
+      const block = this.readContainer(lines, index, pushedLines);
+      if (!block) return undefined;
+      const pushed = pushedBlocks.get(
+        lines.slice(index, index + block.length).join('\n')
+      );
+      return pushed === undefined
+        ? block
+        : { ...block, replacement: pushed.split('\n') };
+    });
+  }
+
+  private readCallout(lines: string[], index: number): Block | undefined {
+    const header = lines[index].match(CALLOUT_HEADER);
+    if (!header) return undefined;
+    const [, type, fold, title] = header;
+
+    let end = index + 1;
+    while (end < lines.length && lines[end].startsWith('>')) end++;
+    const content = lines.slice(index + 1, end).map(unquote);
+    // A line closing a container would end the translated one early
+    if (content.some(line => line.startsWith(':::'))) return undefined;
+
+    const heading = (name: string, text?: string) =>
+      [name, text].filter(Boolean).join(' ');
+    const spoilerTitle = heading(fold === '+' ? OPEN_STATE : '', title);
+    const container = this.getContainer(type);
+    let replacement: string[];
+    if (container && fold) {
+      replacement = [
+        `::::${heading(SPOILER, spoilerTitle)}`,
+        `:::${container}`,
+        ...content,
+        ':::',
+        '::::',
+      ];
+    } else if (container) {
+      replacement = [`:::${heading(container, title)}`, ...content, ':::'];
+    } else if (type.toLowerCase() === SPOILER && fold) {
+      replacement = [`:::${heading(SPOILER, spoilerTitle)}`, ...content, ':::'];
+    } else {
+      return undefined;
+    }
+    return { length: end - index, replacement };
+  }
+
+  /**
+   * @param pushedLines Callout lines as written, keyed by their content
+   */
+  private readContainer(
+    lines: string[],
+    index: number,
+    pushedLines?: Map<string, string>
+  ): Block | undefined {
+    const header = lines[index].match(CONTAINER_HEADER);
+    if (!header) return undefined;
+    const [, colons, name, text = ''] = header;
+    const open = text.startsWith(OPEN_STATE);
+    const title = open ? text.slice(OPEN_STATE.length).trim() : text;
+    const fold = open ? '+' : '-';
+
+    if (colons === '::::') {
+      // Spoiler wrapping the container of a foldable callout
+      const inner = lines[index + 1]?.match(CONTAINER_HEADER);
+      const type = inner && !inner[3] && this.getCallout(inner[2]);
+      if (name !== SPOILER || inner?.[1] !== ':::' || !type) return undefined;
+      const close = lines.indexOf(':::', index + 2);
+      if (close === -1 || lines[close + 1] !== '::::') return undefined;
+      return {
+        length: close + 2 - index,
+        replacement: toCallout(
+          type,
+          fold,
+          title,
+          lines.slice(index + 2, close),
+          pushedLines
+        ),
+      };
+    }
+
+    const close = lines.indexOf(':::', index + 1);
+    if (close === -1) return undefined;
+    const content = lines.slice(index + 1, close);
+    if (name === SPOILER) {
+      return {
+        length: close + 1 - index,
+        replacement: toCallout(SPOILER, fold, title, content, pushedLines),
+      };
+    }
+    const type = this.getCallout(name);
+    if (!type || open) return undefined;
+    return {
+      length: close + 1 - index,
+      replacement: toCallout(type, '', title, content, pushedLines),
+    };
+  }
+
+  private getContainer(callout: string): string | undefined {
+    return this.mappings.find(
+      mapping => mapping.callout === callout.toLowerCase()
+    )?.container;
+  }
+
+  // The first callout type mapped to a container
+  private getCallout(container: string): string | undefined {
+    return this.mappings.find(mapping => mapping.container === container)
+      ?.callout;
+  }
+}
+
+// Content of a callout line, without the quote marker
+function unquote(line: string): string {
+  return line.replace(/^> ?/, '');
+}
+
+/**
+ * @param fold Marker of a foldable callout, empty for the others
+ * @param pushedLines Lines as written, keyed by their content
+ */
+function toCallout(
+  type: string,
+  fold: string,
+  title: string,
+  content: string[],
+  pushedLines?: Map<string, string>
+): string[] {
+  return [
+    `> [!${type}]${fold}${title ? ` ${title}` : ''}`,
+    ...content.map(
+      line => pushedLines?.get(line) ?? (line ? `> ${line}` : '>')
+    ),
+  ];
+}
+
+/**
+ * Replaces the blocks a reader finds in a body, outside fenced code
+ * @param read Reads the block starting at a line, if any
+ */
+function mapBlocks(
+  body: string,
+  read: (lines: string[], index: number) => Block | undefined
+): string {
+  const lines = body.split('\n');
+  const result: string[] = [];
+  let fence: string | undefined;
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const marker = line.match(FENCE)?.[1];
+    if (fence) {
+      if (marker?.startsWith(fence)) fence = undefined;
+    } else if (marker) {
+      fence = marker;
+    } else {
+      const block = read(lines, index);
+      if (block) {
+        result.push(...block.replacement);
+        index += block.length;
+        continue;
+      }
+    }
+    result.push(line);
+    index++;
+  }
+  return result.join('\n');
+}
@@ -1,24 +1,51 @@
 import {
+  CONSTANTS,
   HackMDError,
   HackMDErrorType,
   HackMDNote,
+  HackMDNoteSummary,
   HackMDResponse,
+  HackMDTeam,
   HackMDUser,
-  isHackMDUser,
   NoteOptions,
+  RemoteProvider,
 } from './types';
 import { IObsidianService } from './obsidian-service';
+import {
+  parseNote,
+  parseNoteList,
+  parseTeamList,
+  parseUser,
+} from './validation';
+
+// Methods safe to send twice. Updates replace the whole note, so PATCH is too
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'PATCH', 'DELETE'];
+
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+// Servers of hackmd.io, replaced in the settings for self-hosted instances
+export const DEFAULT_API_URL = 'https://api.hackmd.io/v1';
+export const DEFAULT_WEB_URL = 'https://hackmd.io';
 
 // Client for interacting with the HackMD API
-export class HackMDClient {
-  private static instance: HackMDClient;
-  private static accessToken: string;
-  private readonly baseUrl = 'https://api.hackmd.io/v1';
+export class HackMDClient implements RemoteProvider {
+  // One client per account, keyed by API URL and token
+  private static instances = new Map<string, HackMDClient>();
+  readonly id = 'hackmd';
+  private readonly baseUrl: string;
+  private webUrl = DEFAULT_WEB_URL;
   private readonly headers: Record<string, string>;
   private obsidianService: IObsidianService;
+  // Aborted to cancel every request in flight, e.g. when the plugin unloads
+  private lifetime = new AbortController();
 
-  private constructor(accessToken: string, obsidianService: IObsidianService) {
+  private constructor(
+    accessToken: string,
+    obsidianService: IObsidianService,
+    baseUrl: string
+  ) {
     this.obsidianService = obsidianService;
+    this.baseUrl = baseUrl;
     this.headers = {
       Authorization: `Bearer ${accessToken}`,
       'Content-Type': 'application/json',
@@ -26,171 +53,140 @@ export class HackMDClient {
     };
   }
 
+  /**
+   * Gets the client of an account, verifying the token on first use
+   * @param apiUrl Base URL of the HackMD API, for self-hosted instances
+   * @param webUrl Address notes are opened at
+   */
   public static async getInstance(
     accessToken: string,
-    obsidianService: IObsidianService
+    obsidianService: IObsidianService,
+    apiUrl = DEFAULT_API_URL,
+    webUrl = DEFAULT_WEB_URL
   ): Promise<HackMDClient> {
     if (!accessToken) {
       throw new HackMDError(HackMDErrorType.AUTH_REQUIRED);
     }
 
-    if (HackMDClient.instance && HackMDClient.accessToken === accessToken) {
-      return HackMDClient.instance;
+    const baseUrl = trimUrl(apiUrl) || DEFAULT_API_URL;
+    const key = `${baseUrl} ${accessToken}`;
+    const existing = HackMDClient.instances.get(key);
+    if (existing) {
+      existing.webUrl = webUrl;
+      return existing;
     }
-    HackMDClient.instance = new HackMDClient(accessToken, obsidianService);
-    HackMDClient.accessToken = accessToken;
+    const client = new HackMDClient(accessToken, obsidianService, baseUrl);
+    client.webUrl = webUrl;
+
+    HackMDClient.instances.set(key, client);
 
     try {
-      await HackMDClient.instance.getMe(); // Verify token works
+      await client.getMe(); // Verify token works
     } catch (error) {
-      // Reset instance because token is invalid
-      HackMDClient.resetInstance();
+      // Forget the client because the token is invalid
+      HackMDClient.instances.delete(key);
       throw error; // Rethrow to be handled by caller
     }
 
-    return HackMDClient.instance;
+    return client;
   }
 
+  // Forgets every client, e.g. after tokens changed in the settings
   public static resetInstance(): void {
-    HackMDClient.accessToken = '';
+    HackMDClient.instances.clear();
+  }
+
+  /**
+   * Cancels every request in flight. Later requests are sent as usual
+   */
+  public static abortAll(): void {
+    for (const instance of HackMDClient.instances.values()) {
+      instance.lifetime.abort();
+      instance.lifetime = new AbortController();
+    }
   }
 
   /**
-   * Makes a request to the HackMD API
+   * Makes a request to the HackMD API, retrying rate limited requests and
+   * server errors of idempotent requests
    * @param method - HTTP method
    * @param endpoint - API endpoint
    * @param data - Request body data
+   * @param signal - Cancels the request when aborted
    * @returns Response from the API
    */
   async request(
     method: string,
     endpoint: string,
-    data?: NoteOptions
+    data?: NoteOptions,
+    signal?: AbortSignal
   ): Promise<HackMDResponse> {
     const url = `${this.baseUrl}${endpoint}`;
     try {
-      const response = await this.obsidianService.requestUrl({
-        url,
-        method,
-        headers: {
-          ...this.headers,
-          'Content-Type': 'application/json',
-        },
-        body: data ? JSON.stringify(data) : undefined,
-      });
-
-      // Handle special response types
-      if (response.status === 204 || response.text.length === 0) {
-        return { status: response.status, data: null, ok: true };
-      }
-      // Process accepted status
-      if (response.status === 202) {
-        // Create a standardized response object for accepted status
-        return { status: 202, data: null, ok: true };
-      }
-
-      return {
-        status: response.status,
-        data: response.json,
-        ok: response.status >= 200 && response.status < 300,
-      };
+      return await sendWithRetries(
+        () => this.send(method, url, data),
+        { method, url, endpoint },
+        this.getSignals(signal)
+      );
     } catch (error) {
-      console.error('Request failed:', {
-        url,
-        method,
-        status: error.status,
-        message: error.message,
-      });
-
       // Special handling for delete operations
-      if (method === 'DELETE' && error.status === 404) {
+      if (method === 'DELETE' && error.statusCode === 404) {
         return { status: 404, data: null, ok: true };
       }
-
-      throw this.handleApiError(error);
+      throw error;
     }
   }
 
-  // Handle API errors with user-friendly HackMDError types
-  private handleApiError(error: any): HackMDError {
-    // Network or connection errors don't have status
-    if (!error.status) {
-      return new HackMDError(
-        HackMDErrorType.CONNECTION_FAILED,
-        undefined,
-        0,
-        error
-      );
-    }
+  private async send(
+    method: string,
+    url: string,
+    data?: NoteOptions
+  ): Promise<HackMDResponse> {
+    const response = await this.obsidianService.requestUrl({
+      url,
+      method,
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
 
-    switch (error.status) {
-      case 401:
-        return new HackMDError(
-          HackMDErrorType.AUTH_INVALID,
-          undefined,
-          401,
-          error
-        );
-      case 403:
-        return new HackMDError(
-          HackMDErrorType.PERMISSION_DENIED,
-          undefined,
-          403,
-          error
-        );
-      case 404:
-        return new HackMDError(
-          HackMDErrorType.NOTE_NOT_FOUND,
-          undefined,
-          404,
-          error
-        );
-      case 429:
-        return new HackMDError(
-          HackMDErrorType.RATE_LIMITED,
-          undefined,
-          429,
-          error
-        );
-      case 500:
-      case 502:
-      case 503:
-      case 504:
-        return new HackMDError(
-          HackMDErrorType.SERVER_ERROR,
-          undefined,
-          error.status,
-          error
-        );
-      default:
-        return new HackMDError(
-          HackMDErrorType.UNKNOWN,
-          `Request failed: ${error.message}`,
-          error.status,
-          error
-        );
+    // Handle special response types
+    if (response.status === 204 || response.text.length === 0) {
+      return { status: response.status, data: null, ok: true };
     }
+    // Process accepted status
+    if (response.status === 202) {
+      // Create a standardized response object for accepted status
+      return { status: 202, data: null, ok: true };
+    }
+
+    return {
+      status: response.status,
+      data: response.json,
+      ok: response.status >= 200 && response.status < 300,
+    };
   }
 
   // Gets the current user's information
   async getMe(): Promise<HackMDUser> {
     const response = await this.request('GET', '/me');
-    if (!response.data || !isHackMDUser(response.data)) {
-      throw new HackMDError(
-        HackMDErrorType.AUTH_INVALID,
-        'Failed to get user information'
-      );
-    }
-    return response.data as HackMDUser;
+    return parseUser(response.data, 'GET /me');
   }
 
   // Gets a note by ID
-  async getNote(noteId: string): Promise<HackMDNote> {
-    const response = await this.request('GET', `/notes/${noteId}`);
+  async getNote(noteId: string, signal?: AbortSignal): Promise<HackMDNote> {
+    const response = await this.request(
+      'GET',
+      `/notes/${noteId}`,
+      undefined,
+      signal
+    );
     // We'll only check for expected API response shape, not just null
     // This allows response.data to be null in some valid scenarios (like for tests)
     if (response.ok && response.data) {
-      return response.data as HackMDNote;
+      return parseNote(response.data, `GET /notes/${noteId}`);
     }
     throw new HackMDError(
       HackMDErrorType.NOTE_NOT_FOUND,
@@ -198,22 +194,168 @@ export class HackMDClient {
     );
   }
 
+  // Lists the notes of the current user, without their content
+  async getNoteList(signal?: AbortSignal): Promise<HackMDNoteSummary[]> {
+    const response = await this.request('GET', '/notes', undefined, signal);
+    return parseNoteList(response.data, 'GET /notes');
+  }
+
   // Creates a new note
-  async createNote(options: NoteOptions): Promise<HackMDNote> {
-    const response = await this.request('POST', '/notes', options);
-    if (!response.data) {
-      throw new HackMDError(HackMDErrorType.UNKNOWN, 'Failed to create note');
+  async createNote(
+    options: NoteOptions,
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    const response = await this.request('POST', '/notes', options, signal);
+    return parseNote(response.data, 'POST /notes');
+  }
+
+  // Updates an existing note, given as last read when the caller has it
+  async updateNote(
+    noteId: string,
+    options: NoteOptions,
+    signal?: AbortSignal,
+    before?: HackMDNote
+  ): Promise<HackMDNote> {
+    return this.patchNote(`/notes/${noteId}`, noteId, options, signal, before);
+  }
+
+  // Deletes a note
+  async deleteNote(noteId: string, signal?: AbortSignal): Promise<boolean> {
+    return this.removeNote(`/notes/${noteId}`, noteId, signal);
+  }
+
+  // Lists the teams the current user belongs to
+  async getTeams(signal?: AbortSignal): Promise<HackMDTeam[]> {
+    const response = await this.request('GET', '/teams', undefined, signal);
+    return parseTeamList(response.data, 'GET /teams');
+  }
+
+  // Lists the notes of a team, without their content
+  async getTeamNoteList(
+    teamPath: string,
+    signal?: AbortSignal
+  ): Promise<HackMDNoteSummary[]> {
+    const response = await this.request(
+      'GET',
+      this.teamNotesEndpoint(teamPath),
+      undefined,
+      signal
+    );
+    return parseNoteList(
+      response.data,
+      `GET ${this.teamNotesEndpoint(teamPath)}`
+    );
+  }
+
+  // Gets a team note by ID
+  async getTeamNote(
+    teamPath: string,
+    noteId: string,
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    // The API serves team notes through the note endpoint
+    try {
+      return await this.getNote(noteId, signal);
+    } catch (error) {
+      if (
+        error instanceof HackMDError &&
+        error.type === HackMDErrorType.PERMISSION_DENIED
+      ) {
+        throw new HackMDError(
+          HackMDErrorType.TEAM_ACCESS_DENIED,
+          undefined,
+          error.statusCode,
+          error.originalError
+        );
+      }
+      throw error;
     }
-    return response.data as HackMDNote;
   }
 
-  // Updates an existing note
-  async updateNote(noteId: string, options: NoteOptions): Promise<HackMDNote> {
-    const response = await this.request('PATCH', `/notes/${noteId}`, options);
+  // Creates a new note in a team workspace
+  async createTeamNote(
+    teamPath: string,
+    options: NoteOptions,
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    const response = await this.request(
+      'POST',
+      this.teamNotesEndpoint(teamPath),
+      options,
+      signal
+    );
+    return parseNote(response.data, `POST ${this.teamNotesEndpoint(teamPath)}`);
+  }
+
+  // Updates an existing team note, given as last read when the caller has it
+  async updateTeamNote(
+    teamPath: string,
+    noteId: string,
+    options: NoteOptions,
+    signal?: AbortSignal,
+    before?: HackMDNote
+  ): Promise<HackMDNote> {
+    return this.patchNote(
+      `${this.teamNotesEndpoint(teamPath)}/${noteId}`,
+      noteId,
+      options,
+      signal,
+      before
+    );
+  }
+
+  // Deletes a team note
+  async deleteTeamNote(
+    teamPath: string,
+    noteId: string,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    return this.removeNote(
+      `${this.teamNotesEndpoint(teamPath)}/${noteId}`,
+      noteId,
+      signal
+    );
+  }
+
+  getNoteUrl(noteId: string): string {
+    return getUrlFromId(noteId, this.webUrl);
+  }
+
+  getIdFromUrl(url: string): string | undefined {
+    return getIdFromUrl(url, this.webUrl);
+  }
+
+  async checkConnection(): Promise<void> {
+    await this.getMe();
+  }
+
+  private teamNotesEndpoint(teamPath: string): string {
+    return `/teams/${encodeURIComponent(teamPath)}/notes`;
+  }
+
+  // Signals cancelling a request: the plugin's lifetime and the caller's
+  private getSignals(signal?: AbortSignal): AbortSignal[] {
+    return signal ? [this.lifetime.signal, signal] : [this.lifetime.signal];
+  }
+
+  /**
+   * Sends an update, waiting for HackMD to apply it when it only accepts it
+   * @param before The note as last read, when the caller has it
+   */
+  private async patchNote(
+    endpoint: string,
+    noteId: string,
+    options: NoteOptions,
+    signal?: AbortSignal,
+    before?: HackMDNote
+  ): Promise<HackMDNote> {
+    const response = await this.request('PATCH', endpoint, options, signal);
 
     if (response.status === 202) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return this.getNote(noteId);
+      // The change time moving confirms the update, so without the note as
+      // last read, the time it had is read right away
+      const { lastChangedAt } = before ?? (await this.getNote(noteId, signal));
+      return this.waitForUpdate(noteId, options, lastChangedAt, signal);
     }
 
     if (!response.data) {
@@ -222,12 +364,49 @@ export class HackMDClient {
         `Failed to update note ${noteId}`
       );
     }
-    return response.data as HackMDNote;
+    return parseNote(response.data, `PATCH ${endpoint}`);
   }
 
-  // Deletes a note
-  async deleteNote(noteId: string): Promise<boolean> {
-    const response = await this.request('DELETE', `/notes/${noteId}`);
+  /**
+   * Polls a note until an accepted update shows, as HackMD may apply it in
+   * the background
+   * @param lastChangedAt When the note last changed before the update
+   * @returns The note as of the confirmed update
+   * @throws HackMDError when the update doesn't show before the timeout
+   */
+  private async waitForUpdate(
+    noteId: string,
+    options: NoteOptions,
+    lastChangedAt: HackMDNote['lastChangedAt'],
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    const deadline = Date.now() + CONSTANTS.UPDATE_CONFIRM_TIMEOUT;
+    let delay: number = CONSTANTS.UPDATE_POLL_DELAY;
+    for (;;) {
+      await settleWithin(
+        new Promise(resolve => setTimeout(resolve, delay)),
+        this.getSignals(signal)
+      );
+      const note = await this.getNote(noteId, signal);
+      if (isUpdateApplied(note, options, lastChangedAt)) {
+        return note;
+      }
+      delay = Math.min(delay * 2, CONSTANTS.MAX_UPDATE_POLL_DELAY);
+      if (Date.now() + delay > deadline) {
+        throw new HackMDError(
+          HackMDErrorType.UPDATE_NOT_CONFIRMED,
+          `HackMD accepted the update of note ${noteId} but did not apply it within ${CONSTANTS.UPDATE_CONFIRM_TIMEOUT / 1000} seconds. Pull the note to check its content before syncing again.`
+        );
+      }
+    }
+  }
+
+  private async removeNote(
+    endpoint: string,
+    noteId: string,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const response = await this.request('DELETE', endpoint, undefined, signal);
     if (response.status === 404) {
       console.debug(`Note ${noteId} was already deleted or doesn't exist`);
     }
@@ -236,13 +415,303 @@ export class HackMDClient {
   }
 }
 
-export function getIdFromUrl(url: string): string | undefined {
+/**
+ * Checks whether a note reflects an update: every option sent holds the
+ * sent value, or the note changed since it was read before the update.
+ * Change times come from HackMD, so they are never compared to local time.
+ * @param lastChangedAt When the note last changed before the update
+ */
+export function isUpdateApplied(
+  note: HackMDNote,
+  options: NoteOptions,
+  lastChangedAt: HackMDNote['lastChangedAt']
+): boolean {
+  if (
+    note.lastChangedAt &&
+    (!lastChangedAt ||
+      new Date(note.lastChangedAt).getTime() !==
+        new Date(lastChangedAt).getTime())
+  ) {
+    return true;
+  }
+  return (Object.keys(options) as Array<keyof NoteOptions>).every(key => {
+    if (options[key] === undefined) return true;
+    // HackMD may drop trailing whitespace from the content it stores
+    return key === 'content'
+      ? (note.content ?? '').trimEnd() === (options.content ?? '').trimEnd()
+      : note[key] === options[key];
+  });
+}
+
+export function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Builds a pattern matching the start of an address on a web app, up to the
+ * slash after its path, including any of its subdomains
+ */
+export function getHostPattern(webUrl: string): string {
+  const host = trimUrl(webUrl)
+    .replace(/^[a-z]+:\/\//i, '')
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `^(?:https?://)?(?:[\\w-]+\\.)*${host}/`;
+}
+
+/**
+ * Extracts the note ID from a note URL
+ * @param webUrl Address of the HackMD web app the note lives on
+ */
+export function getIdFromUrl(
+  url: string,
+  webUrl = DEFAULT_WEB_URL
+): string | undefined {
   if (!url) return undefined;
 
-  const match = url.match(/hackmd\.io\/(?:@[^/]+\/)?([a-zA-Z0-9_-]+)/);
+  // Subdomains of the host, e.g. team.hackmd.io, serve the same notes
+  const host = getHostPattern(trimUrl(webUrl) || DEFAULT_WEB_URL);
+  const match = url.match(new RegExp(`${host}(?:@[^/]+/)?([a-zA-Z0-9_-]+)`));
   return match ? match[1] : undefined;
 }
 
-export function getUrlFromId(noteId: string): string {
-  return `https://hackmd.io/${noteId}`;
+/**
+ * Builds the editor URL of a note
+ * @param webUrl Address of the HackMD web app the note lives on
+ */
+export function getUrlFromId(noteId: string, webUrl = DEFAULT_WEB_URL): string {
+  return `${trimUrl(webUrl) || DEFAULT_WEB_URL}/${noteId}`;
+}
+
+// Handle API errors with user-friendly HackMDError types
+function toHackMDError(error: any, endpoint: string): HackMDError {
+  // Network or connection errors don't have status
+  if (!error.status) {
+    return new HackMDError(
+      HackMDErrorType.CONNECTION_FAILED,
+      undefined,
+      0,
+      error
+    );
+  }
+
+  switch (error.status) {
+    case 401:
+      return new HackMDError(
+        HackMDErrorType.AUTH_INVALID,
+        undefined,
+        401,
+        error
+      );
+    case 403:
+      return new HackMDError(
+        endpoint.startsWith('/teams/')
+          ? HackMDErrorType.TEAM_ACCESS_DENIED
+          : HackMDErrorType.PERMISSION_DENIED,
+        undefined,
+        403,
+        error
+      );
+    case 404:
+      return new HackMDError(
+        HackMDErrorType.NOTE_NOT_FOUND,
+        undefined,
+        404,
+        error
+      );
+    case 429:
+      return new HackMDError(
+        HackMDErrorType.RATE_LIMITED,
+        undefined,
+        429,
+        error
+      );
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+      return new HackMDError(
+        HackMDErrorType.SERVER_ERROR,
+        undefined,
+        error.status,
+        error
+      );
+    default:
+      return new HackMDError(
+        HackMDErrorType.UNKNOWN,
+        `Request failed: ${error.message}`,
+        error.status,
+        error
+      );
+  }
+}
+
+/**
+ * Sends a request with a timeout, retrying rate limited requests and server
+ * errors of idempotent requests
+ * @param send Sends the request once
+ * @param request Description of the request, for retries and logs
+ * @param signals Cancel the request when one of them aborts
+ * @throws HackMDError once the request failed for good
+ */
+export async function sendWithRetries<T>(
+  send: () => Promise<T>,
+  { method, url, endpoint }: { method: string; url: string; endpoint: string },
+  signals: AbortSignal[]
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await settleWithin(send(), signals, CONSTANTS.DEFAULT_TIMEOUT);
+    } catch (error) {
+      // Timed out or cancelled: the server may still apply it, so no retry
+      if (error instanceof HackMDError) {
+        error.attempts = attempt;
+        throw error;
+      }
+
+      const delay = getRetryDelay(method, error, attempt);
+      if (delay === undefined) {
+        console.error('Request failed:', {
+          url,
+          method,
+          status: error.status,
+          message: error.message,
+          attempts: attempt,
+        });
+        const apiError = toHackMDError(error, endpoint);
+        apiError.attempts = attempt;
+        if (attempt > 1) {
+          apiError.message = `${apiError.message} (gave up after ${attempt} attempts)`;
+        }
+        throw apiError;
+      }
+
+      console.debug(
+        `Retrying ${method} ${endpoint} in ${Math.round(delay)} ms (status ${error.status}, attempt ${attempt})`
+      );
+      await settleWithin(
+        new Promise(resolve => setTimeout(resolve, delay)),
+        signals
+      );
+    }
+  }
+}
+
+/**
+ * Waits for a promise, giving up once a signal aborts or the timeout expires.
+ * Obsidian's requestUrl can't be aborted, so the request itself is left to
+ * finish in the background.
+ * @throws HackMDError when cancelled or timed out
+ */
+function settleWithin<T>(
+  promise: Promise<T>,
+  signals: AbortSignal[],
+  timeout?: number
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signals.forEach(signal => signal.removeEventListener('abort', onAbort));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new HackMDError(HackMDErrorType.REQUEST_CANCELLED));
+    };
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            cleanup();
+            reject(
+              new HackMDError(HackMDErrorType.REQUEST_TIMEOUT, undefined, 0)
+            );
+          }, timeout);
+
+    promise.then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+    if (signals.some(signal => signal.aborted)) {
+      onAbort();
+      return;
+    }
+    signals.forEach(signal => signal.addEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Reads the delay requested by a Retry-After header
+ * @param headers Response headers, in any case
+ * @param now Current time, for headers holding a date
+ * @returns The delay in milliseconds, or undefined without a valid header
+ */
+export function parseRetryAfter(
+  headers: Record<string, string> | undefined,
+  now = Date.now()
+): number | undefined {
+  const name = Object.keys(headers ?? {}).find(
+    key => key.toLowerCase() === 'retry-after'
+  );
+  const value = name && headers?.[name].trim();
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed request is sent again
+ * @param attempt Number of requests already sent
+ * @returns The delay before the next attempt, or undefined to give up
+ */
+function getRetryDelay(
+  method: string,
+  error: { status?: number; headers?: Record<string, string> },
+  attempt: number
+): number | undefined {
+  if (attempt > CONSTANTS.MAX_RETRIES) {
+    return undefined;
+  }
+  // A rate limited request wasn't processed, so any method can be resent
+  const retryable =
+    error.status === 429 ||
+    (RETRYABLE_SERVER_STATUSES.includes(error.status ?? 0) &&
+      IDEMPOTENT_METHODS.includes(method.toUpperCase()));
+  if (!retryable) {
+    return undefined;
+  }
+
+  const retryAfter = parseRetryAfter(error.headers);
+  if (retryAfter !== undefined) {
+    // Longer waits are left to the caller, e.g. the auto-push backoff
+    return retryAfter <= CONSTANTS.MAX_RETRY_DELAY ? retryAfter : undefined;
+  }
+  const backoff = Math.min(
+    CONSTANTS.RETRY_BASE_DELAY * 2 ** (attempt - 1),
+    CONSTANTS.MAX_RETRY_DELAY
+  );
+  // Jitter keeps clients rate limited together from retrying in lockstep
+  return backoff / 2 + (Math.random() * backoff) / 2;
+}
+
+/**
+ * Gets the reader-facing link of a published note
+ * @returns The publish link, or undefined when the note isn't published
+ */
+export function getPublishedUrl(
+  note: Pick<HackMDNote, 'publishLink' | 'publishedAt'>
+): string | undefined {
+  if (note.publishedAt === null) {
+    return undefined;
+  }
+  return note.publishLink || undefined;
 }
@@ -0,0 +1,63 @@
+import type { FrontmatterFilterMode } from './settings';
+import { PERMISSION_KEYS, PUBLISH_TYPE_KEY } from './permissions';
+import { SYNC_METADATA_KEYS } from './sync-state';
+import { NoteFrontmatter } from './types';
+
+// HackMD reads the note title from this key, so it is always pushed
+const TITLE_KEY = 'title';
+
+// Keys only the plugin reads: sync metadata and per-note plugin settings
+export const LOCAL_ONLY_KEYS: string[] = [
+  ...SYNC_METADATA_KEYS.filter(key => key !== TITLE_KEY),
+  ...Object.values(PERMISSION_KEYS),
+  PUBLISH_TYPE_KEY,
+  'autoPush',
+];
+
+// Frontmatter keys pushed with the content of a note
+export interface FrontmatterFilter {
+  // Whether the keys are the only ones pushed or the ones kept local
+  mode: FrontmatterFilterMode;
+  keys: string[];
+}
+
+/**
+ * Checks whether a frontmatter key goes to the remote note
+ */
+export function isPushedKey(key: string, filter: FrontmatterFilter): boolean {
+  if (key === TITLE_KEY) return true;
+  if (LOCAL_ONLY_KEYS.includes(key)) return false;
+  const listed = filter.keys.includes(key);
+  return filter.mode === 'include' ? listed : !listed;
+}
+
+/**
+ * Keeps the frontmatter keys that are pushed, or those kept local
+ * @param pushed Whether to keep the pushed keys or the local ones
+ */
+export function filterFrontmatter(
+  frontmatter: NoteFrontmatter,
+  filter: FrontmatterFilter,
+  pushed = true
+): NoteFrontmatter {
+  return Object.fromEntries(
+    Object.entries(frontmatter).filter(
+      ([key]) => isPushedKey(key, filter) === pushed
+    )
+  );
+}
+
+/**
+ * Builds the frontmatter of a pulled note: the pushed keys as the remote has
+ * them, and the keys kept local as the vault has them
+ */
+export function mergePulledFrontmatter(
+  remote: NoteFrontmatter | null,
+  local: NoteFrontmatter | null,
+  filter: FrontmatterFilter
+): NoteFrontmatter {
+  return {
+    ...filterFrontmatter(local ?? {}, filter, false),
+    ...filterFrontmatter(remote ?? {}, filter),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Hashes note content so changes can be detected without relying on clocks.
+ * Line endings are normalized so a note saved on another platform still
+ * matches its synced version.
+ * @param content Content to hash
+ * @returns A 53-bit hash as a hexadecimal string
+ */
+export function hashContent(content: string): string {
+  const normalized = content.replace(/\r\n/g, '\n');
+  // cyrb53: fast, well distributed and synchronous, unlike SubtleCrypto
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
@@ -0,0 +1,244 @@
+import { getHostPattern, sendWithRetries, trimUrl } from './client';
+import {
+  HackMDError,
+  HackMDErrorType,
+  HackMDNote,
+  HackMDNoteSummary,
+  HedgeDocNote,
+  HedgeDocNoteMetadata,
+  NoteOptions,
+  RemoteProvider,
+} from './types';
+import { IObsidianService } from './obsidian-service';
+import { parseHedgeDocNote, parseHedgeDocNoteList } from './validation';
+
+/**
+ * Client for the public API of a HedgeDoc server (`/api/v2`), authenticated
+ * with an API token
+ */
+export class HedgeDocClient implements RemoteProvider {
+  private static instance: HedgeDocClient | undefined;
+  readonly id = 'hedgedoc';
+  private readonly serverUrl: string;
+  private readonly accessToken: string;
+  private obsidianService: IObsidianService;
+  // Aborted to cancel every request in flight, e.g. when the plugin unloads
+  private lifetime = new AbortController();
+
+  private constructor(
+    serverUrl: string,
+    accessToken: string,
+    obsidianService: IObsidianService
+  ) {
+    this.serverUrl = serverUrl;
+    this.accessToken = accessToken;
+    this.obsidianService = obsidianService;
+  }
+
+  /**
+   * Gets the client of a HedgeDoc server, verifying the token on first use
+   * @param serverUrl Address of the HedgeDoc server
+   * @param accessToken API token created in the HedgeDoc profile
+   */
+  public static async getInstance(
+    serverUrl: string,
+    accessToken: string,
+    obsidianService: IObsidianService
+  ): Promise<HedgeDocClient> {
+    const url = trimUrl(serverUrl);
+    if (!url || !accessToken) {
+      throw new HackMDError(HackMDErrorType.HEDGEDOC_NOT_CONFIGURED);
+    }
+
+    const current = HedgeDocClient.instance;
+    if (current?.serverUrl === url && current.accessToken === accessToken) {
+      return current;
+    }
+
+    const client = new HedgeDocClient(url, accessToken, obsidianService);
+    await client.checkConnection(); // Verify token works
+    HedgeDocClient.instance = client;
+    return client;
+  }
+
+  public static resetInstance(): void {
+    HedgeDocClient.instance = undefined;
+  }
+
+  /**
+   * Cancels every request in flight. Later requests are sent as usual
+   */
+  public static abortAll(): void {
+    const instance = HedgeDocClient.instance;
+    if (instance) {
+      instance.lifetime.abort();
+      instance.lifetime = new AbortController();
+    }
+  }
+
+  /**
+   * Makes a request to the HedgeDoc API
+   * @param body JSON data, or the markdown content of a note
+   * @returns Parsed JSON response, null when the response is empty
+   */
+  private async request(
+    method: string,
+    endpoint: string,
+    body?: string | object,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const url = `${this.serverUrl}/api/v2${endpoint}`;
+    const signals = signal
+      ? [this.lifetime.signal, signal]
+      : [this.lifetime.signal];
+    const response = await sendWithRetries(
+      () =>
+        this.obsidianService.requestUrl({
+          url,
+          method,
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            Accept: 'application/json',
+            'Content-Type':
+              typeof body === 'string' ? 'text/markdown' : 'application/json',
+          },
+          body:
+            body === undefined || typeof body === 'string'
+              ? body
+              : JSON.stringify(body),
+        }),
+      { method, url, endpoint },
+      signals
+    );
+    return response.status === 204 || response.text.length === 0
+      ? null
+      : response.json;
+  }
+
+  async getNote(noteId: string, signal?: AbortSignal): Promise<HackMDNote> {
+    const endpoint = this.noteEndpoint(noteId);
+    const note = await this.request('GET', endpoint, undefined, signal);
+    if (!note) {
+      throw new HackMDError(
+        HackMDErrorType.NOTE_NOT_FOUND,
+        `Note ${noteId} not found`
+      );
+    }
+    return toNote(parseHedgeDocNote(note, `GET ${endpoint}`), noteId);
+  }
+
+  // Lists the notes owned by the current user, without their content
+  async getNoteList(signal?: AbortSignal): Promise<HackMDNoteSummary[]> {
+    const notes = await this.request('GET', '/me/notes', undefined, signal);
+    return parseHedgeDocNoteList(notes, 'GET /me/notes').map(toNoteSummary);
+  }
+
+  // Creates a note. HedgeDoc has no permissions to set on creation
+  async createNote(
+    options: NoteOptions,
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    const note = await this.request(
+      'POST',
+      '/notes',
+      options.content ?? '',
+      signal
+    );
+    return toNote(parseHedgeDocNote(note, 'POST /notes'));
+  }
+
+  // Replaces the content of a note, the only option HedgeDoc can update
+  async updateNote(
+    noteId: string,
+    options: NoteOptions,
+    signal?: AbortSignal
+  ): Promise<HackMDNote> {
+    if (options.content === undefined) {
+      return this.getNote(noteId, signal);
+    }
+    const endpoint = `${this.noteEndpoint(noteId)}/content`;
+    const note = await this.request('PUT', endpoint, options.content, signal);
+    return toNote(parseHedgeDocNote(note, `PUT ${endpoint}`), noteId);
+  }
+
+  async deleteNote(noteId: string, signal?: AbortSignal): Promise<boolean> {
+    try {
+      await this.request(
+        'DELETE',
+        this.noteEndpoint(noteId),
+        { keepMedia: false },
+        signal
+      );
+    } catch (error) {
+      if (!(error instanceof HackMDError && error.statusCode === 404)) {
+        throw error;
+      }
+      console.debug(`Note ${noteId} was already deleted or doesn't exist`);
+    }
+    return true;
+  }
+
+  getNoteUrl(noteId: string): string {
+    return getHedgeDocUrlFromId(noteId, this.serverUrl);
+  }
+
+  getIdFromUrl(url: string): string | undefined {
+    return getHedgeDocIdFromUrl(url, this.serverUrl);
+  }
+
+  async checkConnection(): Promise<void> {
+    await this.request('GET', '/me');
+  }
+
+  private noteEndpoint(noteId: string): string {
+    return `/notes/${encodeURIComponent(noteId)}`;
+  }
+}
+
+function toNoteSummary(metadata: HedgeDocNoteMetadata): HackMDNoteSummary {
+  return {
+    // Notes are opened at their primary address, an alias when they have one
+    id: metadata.primaryAddress || metadata.id,
+    title: metadata.title,
+    tags: metadata.tags,
+    createdAt: metadata.createdAt,
+    lastChangedAt: metadata.updatedAt,
+    provider: 'hedgedoc',
+  };
+}
+
+/**
+ * @param noteId Address the note was requested with, kept as its ID so the
+ * link of the local note doesn't change
+ */
+function toNote(note: HedgeDocNote, noteId?: string): HackMDNote {
+  const summary = toNoteSummary(note.metadata);
+  return { ...summary, id: noteId ?? summary.id, content: note.content };
+}
+
+/**
+ * Builds the editor URL of a HedgeDoc note
+ * @param serverUrl Address of the HedgeDoc server
+ */
+export function getHedgeDocUrlFromId(
+  noteId: string,
+  serverUrl: string
+): string {
+  return `${trimUrl(serverUrl)}/n/${noteId}`;
+}
+
+/**
+ * Extracts the note ID from the URL of a HedgeDoc note
+ * @param serverUrl Address of the HedgeDoc server
+ */
+export function getHedgeDocIdFromUrl(
+  url: string,
+  serverUrl: string
+): string | undefined {
+  if (!url || !trimUrl(serverUrl)) return undefined;
+
+  const match = url.match(
+    new RegExp(`${getHostPattern(serverUrl)}(?:n/)?([a-zA-Z0-9_-]+)`)
+  );
+  return match ? match[1] : undefined;
+}
@@ -6,14 +6,61 @@ import {
   TFile,
   MarkdownFileInfo,
 } from 'obsidian';
-import { getIdFromUrl, getUrlFromId, HackMDClient } from './client';
+import {
+  getIdFromUrl,
+  getPublishedUrl,
+  getUrlFromId,
+  HackMDClient,
+} from './client';
 import { ObsidianService } from './obsidian-service';
+import { ACCOUNT_KEY, getFrontmatterAccount, resolveAccount } from './accounts';
+import {
+  getHedgeDocIdFromUrl,
+  getHedgeDocUrlFromId,
+  HedgeDocClient,
+} from './hedgedoc-client';
 import {
   HackMDPluginSettings,
   DEFAULT_SETTINGS,
   HackMDSettingTab,
+  AccountFolderMapping,
+  TeamFolderMapping,
 } from './settings';
-import { ModalFactory } from './modal';
+import {
+  IMPORT_REPORT_LABELS,
+  ModalFactory,
+  SYNC_REPORT_LABELS,
+} from './modal';
+import {
+  hasConflictMarkers,
+  MergeResult,
+  renderMerge,
+  threeWayMerge,
+} from './merge';
+import { hashContent } from './hash';
+import { AutoPushScheduler } from './auto-push';
+import { SyncStatusBar } from './status-bar';
+import { describeOperation, OfflineQueue } from './offline-queue';
+import {
+  getPullConflict,
+  isUnknownRemoteChange,
+  pickSyncMetadata,
+  SyncStateStore,
+} from './sync-state';
+import {
+  filterFrontmatter,
+  FrontmatterFilter,
+  mergePulledFrontmatter,
+} from './frontmatter-filter';
+import { LinkConverter } from './wikilinks';
+import { CalloutConverter } from './callouts';
+import {
+  getFrontmatterNoteOptions,
+  getFrontmatterPermissions,
+  PERMISSION_KEYS,
+  PUBLISH_TYPE_KEY,
+} from './permissions';
+import { NotePublishType } from '@hackmd/api/dist/type';
 import {
   HackMDMetadata,
   NoteFrontmatter,
@@ -21,7 +68,24 @@ import {
   HackMDError,
   HackMDErrorType,
   HackMDNote,
+  BrowsableNote,
+  BulkSyncEntry,
+  MergeOutcome,
+  NoteOptions,
+  NotePermissions,
+  HackMDNoteSummary,
+  ImportSource,
+  WorkspaceImportOptions,
+  NoteLink,
+  PendingOperation,
+  PROVIDER_NAMES,
+  ProviderId,
+  QueuedOperation,
+  RemoteProvider,
+  SyncDirection,
   SyncPrepareResult,
+  SyncPreview,
+  SyncStatus,
   UpdateLocalNoteParams,
 } from './types';
 
@@ -29,39 +93,137 @@ export default class HackMDPlugin extends Plugin {
   settings: HackMDPluginSettings;
   private readonly SYNC_TIME_MARGIN = 4000;
   private obsidianService: ObsidianService;
+  private syncState: SyncStateStore;
+  private autoPush: AutoPushScheduler;
+  private statusBar: SyncStatusBar;
+  private pollTimer: number | null = null;
+  private offlineQueue: OfflineQueue;
+  // Operations started by the user, aborted by Cancel Operations
+  private operations = new Set<AbortController>();
 
   async onload() {
     this.obsidianService = new ObsidianService();
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    await this.loadSettings();
     this.registerEditorCommands();
     this.registerCreateFromHackMDCommand();
+    this.registerSyncAllCommand();
+    this.registerCancelCommand();
+    this.registerAutoPush();
+    this.registerStatusBar();
+    this.registerOfflineQueue();
+    this.registerSyncStateEvents();
     this.addSettingTab(new HackMDSettingTab(this.app, this));
+    this.app.workspace.onLayoutReady(async () => {
+      await this.reconcileSyncState();
+      this.restartPolling();
+      this.pollRemoteChanges();
+      this.replayOfflineQueue();
+    });
+  }
+
+  onunload() {
+    this.autoPush?.cancelAll();
+    this.offlineQueue?.stop();
+    this.operations.forEach(controller => controller.abort());
+    HackMDClient.abortAll();
+    HedgeDocClient.abortAll();
+  }
+
+  async loadSettings(): Promise<void> {
+    // Sync state and the offline queue share the data file with the settings
+    // but are kept apart
+    const { syncState, queue, ...settings } = (await this.loadData()) ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    this.syncState = new SyncStateStore(syncState ?? {}, () =>
+      this.saveSettings()
+    );
+    this.offlineQueue = new OfflineQueue(
+      queue ?? [],
+      () => this.saveSettings(),
+      operation => this.isOperationReachable(operation),
+      operation => this.runQueuedOperation(operation),
+      (operation, error) => this.handleDroppedOperation(operation, error)
+    );
+  }
+
+  async saveSettings(): Promise<void> {
+    await this.saveData({
+      ...this.settings,
+      syncState: this.syncState.toJSON(),
+      queue: this.offlineQueue.getOperations(),
+    });
   }
 
   private registerEditorCommands(): void {
     const commands = [
       {
         name: 'Push',
-        callback: this.pushToHackMD.bind(this),
+        callback: (editor: Editor, file: TFile) =>
+          this.runOrQueue({ type: 'push', path: file.path }, () =>
+            this.runCancellable(signal =>
+              this.pushToHackMD(editor, file, 'normal', signal)
+            )
+          ),
       },
       {
         name: 'Pull',
-        callback: this.pullFromHackMD.bind(this),
+        callback: (editor: Editor, file: TFile) =>
+          this.runCancellable(signal =>
+            this.pullFromHackMD(editor, file, 'normal', signal)
+          ),
       },
       {
         name: 'Force Push',
         callback: (editor: Editor, file: TFile) =>
-          this.pushToHackMD(editor, file, 'force'),
+          this.runOrQueue({ type: 'push', path: file.path }, () =>
+            this.runCancellable(signal =>
+              this.pushToHackMD(editor, file, 'force', signal)
+            )
+          ),
       },
       {
         name: 'Force Pull',
         callback: (editor: Editor, file: TFile) =>
-          this.pullFromHackMD(editor, file, 'force'),
+          this.runCancellable(signal =>
+            this.pullFromHackMD(editor, file, 'force', signal)
+          ),
+      },
+      {
+        name: 'Preview Push',
+        callback: (editor: Editor, file: TFile) =>
+          this.previewSync(editor, file, 'push'),
+      },
+      {
+        name: 'Preview Pull',
+        callback: (editor: Editor, file: TFile) =>
+          this.previewSync(editor, file, 'pull'),
+      },
+      {
+        name: 'Preview Force Push',
+        callback: (editor: Editor, file: TFile) =>
+          this.previewSync(editor, file, 'push', 'force'),
+      },
+      {
+        name: 'Preview Force Pull',
+        callback: (editor: Editor, file: TFile) =>
+          this.previewSync(editor, file, 'pull', 'force'),
       },
       {
         name: 'Copy URL',
         callback: this.copyHackMDUrl.bind(this),
       },
+      {
+        name: 'Copy Published URL',
+        callback: this.copyPublishedUrl.bind(this),
+      },
+      {
+        name: 'Change Permissions',
+        callback: this.changePermissions.bind(this),
+      },
+      {
+        name: 'Set Publish Type',
+        callback: this.setPublishType.bind(this),
+      },
       {
         name: 'Delete Remote',
         callback: this.deleteHackMDNote.bind(this),
@@ -98,6 +260,176 @@ export default class HackMDPlugin extends Plugin {
       name: 'Create Note from HackMD URL',
       callback: this.createNonEditorCallback(() => this.promptAndCreateNote()),
     });
+    this.addCommand({
+      id: 'browse-hackmd-notes',
+      name: 'Browse and Import HackMD Notes',
+      callback: this.createNonEditorCallback(() => this.browseHackMDNotes()),
+    });
+    this.addCommand({
+      id: 'import-hackmd-workspace',
+      name: 'Import HackMD Workspace',
+      callback: this.createNonEditorCallback(() =>
+        this.promptWorkspaceImport()
+      ),
+    });
+  }
+
+  private registerSyncAllCommand(): void {
+    this.addCommand({
+      id: 'sync-all-linked-notes',
+      name: 'Sync All Linked Notes',
+      callback: this.createNonEditorCallback(() => this.syncAllLinkedNotes()),
+    });
+  }
+
+  private registerCancelCommand(): void {
+    this.addCommand({
+      id: 'cancel-hackmd-operations',
+      name: 'Cancel Running Operations',
+      callback: () => this.cancelOperations(),
+    });
+  }
+
+  /**
+   * Runs an operation started by the user, which Cancel Operations can abort
+   * @param task Operation, passing the signal to every request it sends
+   */
+  private async runCancellable<T>(
+    task: (signal: AbortSignal, cancel: () => void) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    this.operations.add(controller);
+    try {
+      return await task(controller.signal, () => controller.abort());
+    } finally {
+      this.operations.delete(controller);
+    }
+  }
+
+  private cancelOperations(): void {
+    if (this.operations.size === 0) {
+      new Notice('No HackMD operation is running.');
+      return;
+    }
+    this.operations.forEach(controller => controller.abort());
+    new Notice('Cancelling HackMD operations...');
+  }
+
+  private registerAutoPush(): void {
+    this.autoPush = new AutoPushScheduler(
+      () => this.settings.autoPushDelay * 1000,
+      path => this.autoPushNote(path),
+      (path, error) => this.handleAutoPushError(path, error)
+    );
+
+    this.registerEvent(
+      this.app.vault.on('modify', file => {
+        if (file instanceof TFile && this.isAutoPushEnabled(file)) {
+          this.autoPush.schedule(file.path);
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) =>
+        this.autoPush.rename(oldPath, file.path)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', file => this.autoPush.cancel(file.path))
+    );
+  }
+
+  private registerStatusBar(): void {
+    this.statusBar = new SyncStatusBar(
+      this.addStatusBarItem(),
+      direction => this.syncActiveNote(direction),
+      () => this.pollRemoteChanges()
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('file-open', () => this.refreshStatusBar())
+    );
+    this.registerEvent(
+      this.app.vault.on('modify', file => {
+        if (file === this.app.workspace.getActiveFile()) {
+          this.refreshStatusBar();
+        }
+      })
+    );
+  }
+
+  /**
+   * Restarts the background check for remote changes with the current interval
+   */
+  restartPolling(): void {
+    if (this.pollTimer !== null) {
+      window.clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.settings.pollInterval > 0) {
+      this.pollTimer = this.registerInterval(
+        window.setInterval(
+          () => this.pollRemoteChanges(),
+          this.settings.pollInterval * 60 * 1000
+        )
+      );
+    }
+  }
+
+  private registerOfflineQueue(): void {
+    this.addCommand({
+      id: 'show-offline-queue',
+      name: 'Show Offline Queue',
+      callback: () =>
+        ModalFactory.createOfflineQueueModal(
+          this.app,
+          this.offlineQueue
+        ).open(),
+    });
+
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) =>
+        this.offlineQueue.rename(oldPath, file.path)
+      )
+    );
+    this.registerDomEvent(window, 'online', () => this.replayOfflineQueue());
+  }
+
+  // Replays queued operations, reporting a queue that can't be saved
+  private replayOfflineQueue(): void {
+    this.offlineQueue.replay().catch(error => this.handleCommandError(error));
+  }
+
+  private registerSyncStateEvents(): void {
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) =>
+        this.syncState.rename(oldPath, file.path)
+      )
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', file => this.syncState.removePath(file.path))
+    );
+  }
+
+  /**
+   * Updates the sync state with the frontmatter of every linked note, which
+   * may have changed while the plugin was disabled
+   */
+  private async reconcileSyncState(): Promise<void> {
+    const linkedNotes = this.app.vault.getMarkdownFiles().flatMap(file => {
+      const frontmatter =
+        this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const metadata = pickSyncMetadata(frontmatter);
+      const noteId = metadata.url
+        ? this.getNoteIdFromUrl(metadata.url)
+        : undefined;
+      return noteId ? [{ path: file.path, noteId, metadata }] : [];
+    });
+
+    await this.syncState.reconcile(
+      linkedNotes,
+      path => this.app.vault.getAbstractFileByPath(path) instanceof TFile
+    );
   }
 
   private createNonEditorCallback<T extends () => Promise<void>>(callback: T) {
@@ -120,40 +452,164 @@ export default class HackMDPlugin extends Plugin {
     }
   }
 
-  private async getClient(): Promise<HackMDClient> {
+  private getNoteUrl(
+    noteId: string,
+    provider: ProviderId = 'hackmd',
+    account?: string
+  ): string {
+    return provider === 'hedgedoc'
+      ? getHedgeDocUrlFromId(noteId, this.settings.hedgedocUrl)
+      : getUrlFromId(noteId, resolveAccount(this.settings, account).webUrl);
+  }
+
+  private getNoteIdFromUrl(url: string): string | undefined {
+    return this.parseNoteUrl(url)?.noteId;
+  }
+
+  /**
+   * Finds the note a URL points to, on HackMD or the HedgeDoc server. A
+   * named account is only recognized when it has its own web URL
+   */
+  private parseNoteUrl(url: string): NoteLink | undefined {
+    const hackmdId = getIdFromUrl(url, this.settings.webUrl);
+    if (hackmdId) {
+      return { noteId: hackmdId, provider: 'hackmd' };
+    }
+    for (const { name, webUrl } of this.settings.accounts) {
+      const noteId = webUrl ? getIdFromUrl(url, webUrl) : undefined;
+      if (noteId) {
+        return { noteId, provider: 'hackmd', account: name };
+      }
+    }
+    const hedgedocId = getHedgeDocIdFromUrl(url, this.settings.hedgedocUrl);
+    return hedgedocId
+      ? { noteId: hedgedocId, provider: 'hedgedoc' }
+      : undefined;
+  }
+
+  /**
+   * Lists the teams of the linked notes of a HackMD account
+   * @param account Named account, the main one when missing
+   */
+  private getLinkedTeams(account?: string): string[] {
+    const teams = this.syncState
+      .getAll()
+      .filter(
+        entry =>
+          entry.teamPath &&
+          entry.provider !== 'hedgedoc' &&
+          entry[ACCOUNT_KEY] === account
+      )
+      .map(entry => entry.teamPath as string);
+    return Array.from(new Set(teams));
+  }
+
+  // Named accounts that are set up, without the main one
+  private getAccountNames(): string[] {
+    return this.settings.accounts
+      .filter(account => account.name !== '' && account.accessToken !== '')
+      .map(account => account.name);
+  }
+
+  /**
+   * Gets the client of a HackMD account
+   * @param account Name of an account profile, the main account when missing
+   */
+  private async getClient(account?: string): Promise<HackMDClient> {
+    const { accessToken, apiUrl, webUrl } = resolveAccount(
+      this.settings,
+      account
+    );
     return HackMDClient.getInstance(
-      this.settings.accessToken,
-      this.obsidianService
+      accessToken,
+      this.obsidianService,
+      apiUrl,
+      webUrl
     );
   }
 
+  /**
+   * Gets the client of the service and account a note belongs to
+   */
+  private async getProvider(
+    provider: ProviderId,
+    account?: string
+  ): Promise<RemoteProvider> {
+    if (provider === 'hedgedoc') {
+      return HedgeDocClient.getInstance(
+        this.settings.hedgedocUrl,
+        this.settings.hedgedocToken,
+        this.obsidianService
+      );
+    }
+    return this.getClient(account);
+  }
+
+  /**
+   * Gets the HackMD client for commands HedgeDoc has no equivalent for
+   * @throws HackMDError when the note belongs to another service
+   */
+  private async getHackMDClient(
+    provider: ProviderId,
+    account?: string
+  ): Promise<HackMDClient> {
+    if (provider !== 'hackmd') {
+      throw new HackMDError(HackMDErrorType.PROVIDER_UNSUPPORTED);
+    }
+    return this.getClient(account);
+  }
+
   private async pushToHackMD(
     editor: Editor,
     file: TFile,
-    mode: SyncMode = 'normal'
+    mode: SyncMode = 'normal',
+    signal?: AbortSignal
   ): Promise<void> {
-    const client = await this.getClient();
-    const { content, noteId } = await this.prepareSync(editor);
+    const {
+      content: localContent,
+      frontmatter,
+      noteId,
+      provider,
+      account,
+      teamPath,
+    } = await this.prepareSync(editor, file);
+    const { content: localBody } = this.getFrontmatter(localContent);
+    const declared = getFrontmatterNoteOptions(frontmatter);
+    let content = localContent;
     let result;
 
     if (noteId) {
+      const client = await this.getProvider(provider, account);
+      let note: HackMDNote | undefined;
       if (mode === 'normal') {
-        await this.checkPushConflicts(file, noteId);
+        if (hasConflictMarkers(localBody)) {
+          throw new HackMDError(HackMDErrorType.SYNC_UNRESOLVED_CONFLICT);
+        }
+        note = await client.getNote(noteId, signal);
+        if (this.hasRemoteChanges(file, localContent, note)) {
+          const merge = await this.mergeChanges(editor, file, note, localBody);
+          content = this.replaceBody(localContent, merge.body);
+        }
       }
-      result = await client.updateNote(noteId, { content });
+      result = await this.updateRemoteNote(
+        client,
+        noteId,
+        { content: this.toRemoteContent(content, file.path), ...declared },
+        teamPath,
+        signal,
+        note
+      );
     } else {
-      result = await this.pushNewNote(editor, file, content);
+      result = await this.pushNewNote(file, content, account, signal);
     }
 
-    const updatedMetadata: Partial<HackMDMetadata> = {
-      url: getUrlFromId(result.id),
-      title: result.title || file.basename,
-      lastSync: new Date().toISOString(),
-    };
-
-    if (result.teamPath) {
-      updatedMetadata.teamPath = result.teamPath;
-    }
+    const { content: pushedBody } = this.getFrontmatter(content);
+    const updatedMetadata = this.getPushMetadata(
+      result,
+      file,
+      pushedBody,
+      account
+    );
 
     // Create editor adapter
     const editorAdapter = this.obsidianService.createEditorAdapter(editor);
@@ -162,30 +618,141 @@ export default class HackMDPlugin extends Plugin {
       content,
       metadata: updatedMetadata,
     });
+    await this.recordSync(file, result, updatedMetadata, pushedBody);
+    this.autoPush.resume(file.path);
+    await this.refreshStatusBar();
 
     new Notice('Successfully pushed to HackMD!');
   }
 
+  /**
+   * Gets the content a new remote note is created with, titled after the file
+   */
+  private getNewNoteContent(file: TFile, content: string): string {
+    const { frontmatter, content: body } = this.getFrontmatter(content);
+    return this.toRemoteContent(
+      this.combine({ ...frontmatter, title: file.basename }, body),
+      file.path
+    );
+  }
+
+  /**
+   * Builds the sync metadata a push writes to the note
+   * @param result Remote note as of the push
+   * @param pushedBody Body of the note as pushed
+   */
+  private getPushMetadata(
+    result: HackMDNote,
+    file: TFile,
+    pushedBody: string,
+    account?: string
+  ): Partial<HackMDMetadata> {
+    return this.withConfirmedHash(
+      this.buildSyncMetadata(result, file.basename, pushedBody, account),
+      result
+    );
+  }
+
+  /**
+   * Creates the remote note of an unlinked file
+   * @param account Named HackMD account to create it with, the main one when
+   * missing
+   */
   private async pushNewNote(
-    editor: Editor,
     file: TFile,
-    content: string
+    content: string,
+    account?: string,
+    signal?: AbortSignal
   ): Promise<HackMDNote> {
-    const client = await this.getClient();
     const { frontmatter } = this.getFrontmatter(content);
+    const contentWithTitle = this.getNewNoteContent(file, content);
+    const provider = frontmatter?.provider ?? this.settings.defaultProvider;
+    if (provider === 'hedgedoc') {
+      const hedgedoc = await this.getProvider(provider);
+      return hedgedoc.createNote({ content: contentWithTitle }, signal);
+    }
 
-    const newFrontmatter: NoteFrontmatter = {
-      ...frontmatter,
-      title: file.basename,
-    };
+    const client = await this.getClient(account);
+    // Options declared by the note win over the defaults
+    const declared = getFrontmatterNoteOptions(frontmatter);
+    const teamFolder = this.getTeamFolder(file);
+    if (teamFolder) {
+      const { teamPath, readPermission, writePermission, commentPermission } =
+        teamFolder;
+      return client.createTeamNote(
+        teamPath,
+        {
+          content: contentWithTitle,
+          readPermission,
+          writePermission,
+          commentPermission,
+          ...declared,
+        },
+        signal
+      );
+    }
 
-    const contentWithTitle = this.combine(newFrontmatter, content);
-    return client.createNote({
-      content: contentWithTitle,
-      readPermission: this.settings.defaultReadPermission,
-      writePermission: this.settings.defaultWritePermission,
-      commentPermission: this.settings.defaultCommentPermission,
-    });
+    const { readPermission, writePermission, commentPermission } =
+      resolveAccount(this.settings, account);
+    return client.createNote(
+      {
+        content: contentWithTitle,
+        readPermission,
+        writePermission,
+        commentPermission,
+        ...declared,
+      },
+      signal
+    );
+  }
+
+  /**
+   * Finds the team workspace new notes of a file are created in
+   * @returns The mapping of the deepest folder holding the file, if any
+   */
+  private getTeamFolder(file: TFile): TeamFolderMapping | undefined {
+    return this.settings.teamFolders
+      .filter(
+        mapping =>
+          mapping.teamPath !== '' && this.isInFolder(file, mapping.folder)
+      )
+      .sort((a, b) => b.folder.length - a.folder.length)[0];
+  }
+
+  /**
+   * Finds the account new notes of a file are created with
+   * @returns The mapping of the deepest folder holding the file, if any
+   */
+  private getAccountFolder(file: TFile): AccountFolderMapping | undefined {
+    return this.settings.accountFolders
+      .filter(
+        mapping =>
+          mapping.account !== '' && this.isInFolder(file, mapping.folder)
+      )
+      .sort((a, b) => b.folder.length - a.folder.length)[0];
+  }
+
+  /**
+   * Picks the account a note is synced with: the one it declares or was
+   * linked with, or the one of its account folder while it is unlinked
+   * @param metadata Sync metadata of the note
+   * @param link Remote note the file is linked to, if any
+   */
+  private getNoteAccount(
+    file: TFile,
+    metadata: Partial<HackMDMetadata>,
+    link?: NoteLink
+  ): string | undefined {
+    return (
+      getFrontmatterAccount(metadata) ??
+      link?.account ??
+      (link ? undefined : this.getAccountFolder(file)?.account)
+    );
+  }
+
+  private isInFolder(file: TFile, folder: string): boolean {
+    const prefix = folder.trim().replace(/\/+$/, '');
+    return prefix !== '' && file.path.startsWith(`${prefix}/`);
   }
 
   /**
@@ -194,15 +761,19 @@ export default class HackMDPlugin extends Plugin {
    * @returns TFile if found, null otherwise
    */
   private findNoteWithHackMDId(noteId: string): TFile | null {
-    // Pre-calculate the exact URL we're looking for
-    const searchUrl = getUrlFromId(noteId);
-    const files = this.app.vault.getMarkdownFiles();
+    // The sync state still knows notes whose frontmatter was rewritten
+    const entry = this.syncState.get(noteId);
+    const stored = entry && this.app.vault.getAbstractFileByPath(entry.path);
+    if (stored instanceof TFile) {
+      return stored;
+    }
 
-    // Utiliser find pour une recherche plus élégante
+    // Compare IDs, as URLs differ in their user path or host
+    const files = this.app.vault.getMarkdownFiles();
     return (
       files.find(file => {
-        const cache = this.app.metadataCache.getFileCache(file);
-        return cache?.frontmatter?.url === searchUrl;
+        const url = this.app.metadataCache.getFileCache(file)?.frontmatter?.url;
+        return typeof url === 'string' && this.getNoteIdFromUrl(url) === noteId;
       }) || null
     );
   }
@@ -213,22 +784,27 @@ export default class HackMDPlugin extends Plugin {
    * @param noteId The HackMD note ID
    * @param noteTitle The note title
    * @param teamPath Optional team path if note belongs to a team
+   * @param extraMetadata Service and publish links of the note, when known
    * @returns Processed content with appropriate metadata
    */
   private prepareNoteContent(
     noteContent: string,
     noteId: string,
     noteTitle: string,
-    teamPath?: string
+    teamPath?: string,
+    extraMetadata: Partial<HackMDMetadata> = {}
   ): string {
     const { frontmatter } = this.getFrontmatter(noteContent);
 
     // Always create fresh synchronization metadata for newly imported notes
     // This ensures we don't inherit potentially problematic metadata from other users
+    const { content: noteBody } = this.getFrontmatter(noteContent);
     const newMetadata: Partial<HackMDMetadata> = {
-      url: getUrlFromId(noteId),
+      url: this.getNoteUrl(noteId),
       title: noteTitle,
       lastSync: new Date().toISOString(),
+      ...this.getSyncHashes(noteBody, noteBody),
+      ...extraMetadata,
     };
 
     if (teamPath) {
@@ -241,8 +817,14 @@ export default class HackMDPlugin extends Plugin {
 
     // Remove any existing sync metadata keys that we'll replace
     delete existingNonSyncFrontmatter.url;
+    delete existingNonSyncFrontmatter.provider;
+    delete existingNonSyncFrontmatter[ACCOUNT_KEY];
     delete existingNonSyncFrontmatter.lastSync;
     delete existingNonSyncFrontmatter.teamPath;
+    delete existingNonSyncFrontmatter.localHash;
+    delete existingNonSyncFrontmatter.remoteHash;
+    delete existingNonSyncFrontmatter.publishLink;
+    delete existingNonSyncFrontmatter.permalink;
 
     // Merge non-sync frontmatter with our fresh sync metadata
     const newFrontmatter = { ...existingNonSyncFrontmatter, ...newMetadata };
@@ -259,15 +841,19 @@ export default class HackMDPlugin extends Plugin {
   /**
    * Generates a unique filename to avoid conflicts
    * @param baseTitle The original title to use as a base
+   * @param folder Folder the file goes in, the vault root by default
    * @returns A unique filename that doesn't exist in the vault
    */
-  private generateUniqueFileName(baseTitle: string): string {
-    let fileName = `${baseTitle}.md`;
+  private generateUniqueFileName(baseTitle: string, folder = ''): string {
+    const basePath = [folder, this.sanitizeFileName(baseTitle)]
+      .filter(Boolean)
+      .join('/');
+    let fileName = `${basePath}.md`;
     let filePath = this.app.vault.getAbstractFileByPath(fileName)?.path;
     let counter = 1;
 
     while (filePath) {
-      fileName = `${baseTitle} (${counter}).md`;
+      fileName = `${basePath} (${counter}).md`;
       filePath = this.app.vault.getAbstractFileByPath(fileName)?.path;
       counter++;
     }
@@ -308,101 +894,1265 @@ export default class HackMDPlugin extends Plugin {
   }
 
   /**
-   * Creates a note from a HackMD URL
-   * @param url The HackMD URL to import
-   * @returns Promise that resolves when the operation is complete
+   * Lets the user pick notes from their HackMD workspaces and imports them
    */
-  async createNoteFromHackMDUrl(url: string): Promise<void> {
-    const noteId = getIdFromUrl(url);
-
-    if (!noteId) {
-      throw new HackMDError(HackMDErrorType.INVALID_URL);
-    }
+  private async browseHackMDNotes(): Promise<void> {
+    new Notice('Loading your HackMD notes...');
+    const notes = await this.listRemoteNotes();
+    const linkedPaths = new Map(
+      this.getLinkedNotes().map(({ file, noteId }) => [noteId, file.path])
+    );
+    const items = notes.map(note => ({
+      note,
+      linkedPath: linkedPaths.get(note.id),
+    }));
 
-    // Check if the note already exists
-    const existingNote = this.findNoteWithHackMDId(noteId);
-    if (existingNote) {
-      this.notifyExistingNote(existingNote);
-      return;
-    }
+    ModalFactory.createNoteBrowserModal(this.app, items, async selected => {
+      try {
+        await this.importBrowsedNotes(selected);
+      } catch (error) {
+        this.handleCommandError(error);
+      }
+    }).open();
+  }
 
-    // Get note data
+  /**
+   * Lists the notes of a workspace, or of every workspace of the user
+   * @param source Workspace to list, all of them by default
+   * @param signal Cancels the listing when aborted
+   * @returns Notes sorted by last change, most recent first
+   */
+  private async listRemoteNotes(
+    source: ImportSource = { type: 'all' },
+    signal?: AbortSignal
+  ): Promise<HackMDNoteSummary[]> {
     const client = await this.getClient();
-    const noteData = await client.getNote(noteId);
-    const noteTitle = noteData.title || 'Untitled';
-    const noteContent = noteData.content || '';
+    if (source.type === 'team') {
+      return client.getTeamNoteList(source.teamPath, signal);
+    }
+    if (source.type === 'personal') {
+      return client.getNoteList(signal);
+    }
 
-    // Prepare content
-    const finalContent = this.prepareNoteContent(
-      noteContent,
-      noteId,
-      noteTitle,
-      noteData.teamPath
+    const notes = new Map(
+      (await this.listAccountNotes(client, undefined, signal)).map(note => [
+        note.id,
+        note,
+      ])
     );
 
-    // Create note with unique filename
-    const fileName = this.generateUniqueFileName(noteTitle);
-    const newFile = await this.app.vault.create(fileName, finalContent);
+    for (const name of this.getAccountNames()) {
+      try {
+        const accountClient = await this.getClient(name);
+        for (const note of await this.listAccountNotes(
+          accountClient,
+          name,
+          signal
+        )) {
+          notes.set(note.id, note);
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // One unreachable account shouldn't hide the other notes
+        console.warn(`Failed to list notes of account ${name}:`, error);
+      }
+    }
 
-    this.app.workspace.getLeaf(true).openFile(newFile);
+    if (this.settings.hedgedocUrl && this.settings.hedgedocToken) {
+      try {
+        const hedgedoc = await this.getProvider('hedgedoc');
+        for (const note of await hedgedoc.getNoteList(signal)) {
+          notes.set(note.id, note);
+        }
+      } catch (error) {
+        console.warn('Failed to list HedgeDoc notes:', error);
+      }
+    }
 
-    // Notify user
-    this.notifyNoteCreation(fileName);
+    return [...notes.values()].sort(
+      (a, b) =>
+        new Date(b.lastChangedAt || b.createdAt).getTime() -
+        new Date(a.lastChangedAt || a.createdAt).getTime()
+    );
   }
 
-  private async pullFromHackMD(
-    editor: Editor,
-    file: TFile,
-    mode: SyncMode = 'normal'
-  ): Promise<void> {
-    const client = await this.getClient();
-    const { noteId } = await this.prepareSync(editor);
-
-    if (!noteId) {
-      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+  /**
+   * Lists the personal and team notes of a HackMD account
+   * @param account Name the notes are marked with, for named accounts
+   */
+  private async listAccountNotes(
+    client: HackMDClient,
+    account?: string,
+    signal?: AbortSignal
+  ): Promise<HackMDNoteSummary[]> {
+    const notes = await client.getNoteList(signal);
+    for (const team of await client.getTeams(signal)) {
+      if (signal?.aborted) {
+        throw new HackMDError(HackMDErrorType.REQUEST_CANCELLED);
+      }
+      try {
+        notes.push(...(await client.getTeamNoteList(team.path, signal)));
+      } catch (error) {
+        // One unreadable team shouldn't hide the other notes
+        console.warn(`Failed to list notes of team ${team.path}:`, error);
+      }
     }
+    return account ? notes.map(note => ({ ...note, account })) : notes;
+  }
 
-    if (mode === 'normal') {
-      await this.checkPullConflicts(file);
+  private async importBrowsedNotes(selected: BrowsableNote[]): Promise<void> {
+    if (selected.length === 1) {
+      await this.importLinkedNote(this.getSummaryLink(selected[0].note));
+      return;
     }
 
-    const note = await client.getNote(noteId);
-    const updatedMetadata: Partial<HackMDMetadata> = {
-      url: getUrlFromId(note.id),
-      title: note.title || file.basename,
-      lastSync: new Date().toISOString(),
-    };
-
-    if (note.teamPath) {
-      updatedMetadata.teamPath = note.teamPath;
-    }
+    const failures: string[] = [];
+    const toImport = selected.filter(({ linkedPath }) => !linkedPath);
+    let imported = 0;
+    await this.runCancellable(async signal => {
+      for (const { note } of toImport) {
+        if (signal.aborted) break;
+        try {
+          await this.importLinkedNote(this.getSummaryLink(note), false, signal);
+          imported++;
+        } catch (error) {
+          console.error(`Failed to import ${note.id}:`, error);
+          failures.push(note.title || note.id);
+        }
+      }
+    });
+
+    const skipped = selected.length - toImport.length;
+    const summary = [
+      `Imported ${imported} note(s) from HackMD.`,
+      skipped > 0 ? `${skipped} were already linked.` : '',
+      failures.length > 0 ? `Failed: ${failures.join(', ')}.` : '',
+    ];
+    new Notice(summary.filter(Boolean).join(' '));
+  }
+
+  /**
+   * Creates a note from a HackMD URL
+   * @param url The HackMD URL to import
+   * @param open Whether to open the created note
+   * @param signal Cancels the import when aborted
+   * @returns Promise that resolves when the operation is complete
+   */
+  async createNoteFromHackMDUrl(
+    url: string,
+    open = true,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Pasted URLs may carry whitespace the anchored patterns don't allow
+    const link = this.parseNoteUrl(url.trim());
+
+    if (!link) {
+      throw new HackMDError(HackMDErrorType.INVALID_URL);
+    }
+    await this.importLinkedNote(link, open, signal);
+  }
+
+  // Remote note of a listed note, through the service and account listing it
+  private getSummaryLink(note: HackMDNoteSummary): NoteLink {
+    return {
+      noteId: note.id,
+      provider: note.provider ?? 'hackmd',
+      account: note.account,
+    };
+  }
+
+  /**
+   * Imports a remote note unless a vault note is already linked to it
+   * @param open Whether to open the created note
+   * @param signal Cancels the import when aborted
+   */
+  private async importLinkedNote(
+    link: NoteLink,
+    open = true,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // Check if the note already exists
+    const existingNote = this.findNoteWithHackMDId(link.noteId);
+    if (existingNote) {
+      this.notifyExistingNote(existingNote);
+      return;
+    }
+
+    const newFile = await this.importNote(link, '', signal);
+    if (!open) {
+      return;
+    }
+    this.app.workspace.getLeaf(true).openFile(newFile);
+
+    // Notify user
+    this.notifyNoteCreation(newFile.path);
+  }
+
+  /**
+   * Creates a linked vault note from a remote note
+   * @param link Remote note to import, with its service and account
+   * @param folder Vault folder receiving the note, the root by default
+   * @param signal Cancels the import when aborted
+   * @returns The created file
+   */
+  private async importNote(
+    { noteId, provider, account }: NoteLink,
+    folder = '',
+    signal?: AbortSignal
+  ): Promise<TFile> {
+    // Get note data
+    const client = await this.getProvider(provider, account);
+    const noteData = await client.getNote(noteId, signal);
+    const noteTitle = noteData.title || 'Untitled';
+    await this.ensureFolder(folder);
+    const fileName = this.generateUniqueFileName(noteTitle, folder);
+    // Links to notes of the vault become wikilinks
+    const noteContent = this.replaceBody(
+      noteData.content || '',
+      this.getRemoteBody(noteData, fileName)
+    );
+
+    // Prepare content
+    const finalContent = this.prepareNoteContent(
+      noteContent,
+      noteId,
+      noteTitle,
+      noteData.teamPath,
+      {
+        ...(noteData.provider && { provider: noteData.provider }),
+        ...(account && { [ACCOUNT_KEY]: account }),
+        url: this.getNoteUrl(noteId, provider, account),
+        ...this.getPublishMetadata(noteData),
+        ...this.withConfirmedHash({}, noteData),
+      }
+    );
+
+    // Create note with unique filename
+    const newFile = await this.app.vault.create(fileName, finalContent);
+    const { frontmatter, content: body } = this.getFrontmatter(finalContent);
+    await this.recordSync(
+      newFile,
+      noteData,
+      pickSyncMetadata(frontmatter),
+      body
+    );
+    return newFile;
+  }
+
+  private async promptWorkspaceImport(): Promise<void> {
+    const client = await this.getClient();
+    const teams = await client.getTeams();
+    ModalFactory.createWorkspaceImportModal(this.app, teams, async options => {
+      try {
+        await this.importWorkspace(options);
+      } catch (error) {
+        this.handleCommandError(error);
+      }
+    }).open();
+  }
+
+  /**
+   * Imports every note of a workspace that isn't linked yet, then shows a
+   * report of what happened to each of them
+   */
+  private async importWorkspace(
+    options: WorkspaceImportOptions
+  ): Promise<void> {
+    await this.runCancellable(async (signal, cancel) => {
+      const notes = await this.listRemoteNotes(options.source, signal);
+      const modal = ModalFactory.createSyncProgressModal(
+        this.app,
+        'Importing HackMD notes',
+        cancel
+      );
+      modal.open();
+
+      const entries: BulkSyncEntry[] = [];
+      for (const [index, note] of notes.entries()) {
+        if (signal.aborted) break;
+        const title = note.title || note.id;
+        modal.setProgress(index, notes.length, title);
+
+        const existing = this.findNoteWithHackMDId(note.id);
+        if (existing) {
+          entries.push({ path: existing.path, status: 'skipped' });
+          continue;
+        }
+
+        try {
+          const folder = this.getImportFolder(note, options);
+          const file = await this.importNote(
+            this.getSummaryLink(note),
+            folder,
+            signal
+          );
+          entries.push({ path: file.path, status: 'imported' });
+        } catch (error) {
+          console.error(`Failed to import ${note.id}:`, error);
+          entries.push({
+            path: title,
+            status: 'failed',
+            reason: error.message,
+          });
+        }
+      }
+
+      modal.showReport(entries, IMPORT_REPORT_LABELS, signal.aborted);
+    });
+  }
+
+  private getImportFolder(
+    note: HackMDNoteSummary,
+    { folder, grouping }: WorkspaceImportOptions
+  ): string {
+    let group: string | undefined;
+    if (grouping === 'tag') {
+      group = note.tags?.[0];
+    } else if (grouping === 'team') {
+      group = note.teamPath || 'Personal';
+    }
+
+    return [folder, group && this.sanitizeFileName(group)]
+      .filter(Boolean)
+      .join('/');
+  }
+
+  /**
+   * Creates a vault folder and its missing parents
+   */
+  private async ensureFolder(path: string): Promise<void> {
+    let current = '';
+    for (const segment of path.split('/').filter(Boolean)) {
+      current = current ? `${current}/${segment}` : segment;
+      if (!this.app.vault.getAbstractFileByPath(current)) {
+        await this.app.vault.createFolder(current);
+      }
+    }
+  }
+
+  // Replaces the characters Obsidian doesn't allow in file names
+  private sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'Untitled';
+  }
+
+  private async pullFromHackMD(
+    editor: Editor,
+    file: TFile,
+    mode: SyncMode = 'normal',
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { noteId, frontmatter, provider, account } = await this.prepareSync(
+      editor,
+      file
+    );
+
+    if (!noteId) {
+      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+    }
+
+    const client = await this.getProvider(provider, account);
+    const note = await client.getNote(noteId, signal);
+    const localContent = editor.getValue();
+    const { content: localBody } = this.getFrontmatter(localContent);
+    const remoteBody = this.getRemoteBody(note, file.path, localBody);
+    const remoteContent = this.replaceBody(note.content || '', remoteBody);
+    let content = remoteContent;
+    // Merged local edits are not synced yet, so the remote body is the base
+    let syncedBody = remoteBody;
+    let syncedNote = note;
+
+    if (mode === 'normal' && this.hasLocalChanges(file, localContent)) {
+      const conflict = getPullConflict(
+        this.hasRemoteChanges(file, localContent, note),
+        this.getMergeBase(note.id, frontmatter) !== undefined
+      );
+      if (conflict) {
+        throw new HackMDError(conflict);
+      }
+      const merge = await this.mergeChanges(editor, file, note, localBody);
+      content = this.replaceBody(remoteContent, merge.body);
+      if (merge.resolvedByUser) {
+        syncedNote = await this.updateRemoteNote(
+          client,
+          note.id,
+          { content: this.toRemoteContent(content, file.path) },
+          note.teamPath,
+          signal,
+          note
+        );
+        syncedBody = merge.body;
+      }
+    }
+    content = this.withLocalFrontmatter(content, localContent);
+
+    const updatedMetadata = this.withConfirmedHash(
+      this.buildSyncMetadata(note, file.basename, syncedBody, account),
+      syncedNote
+    );
 
     // Create editor adapter
     const editorAdapter = this.obsidianService.createEditorAdapter(editor);
     await this.updateLocalNote({
       editor: editorAdapter,
-      content: note.content || '',
+      content,
       metadata: updatedMetadata,
     });
+    await this.recordSync(file, note, updatedMetadata, syncedBody);
+    this.autoPush.resume(file.path);
+    await this.refreshStatusBar();
+
+    new Notice('Successfully pulled from HackMD!');
+  }
+
+  /**
+   * Shows what a Push or Pull would change, then runs it once confirmed
+   * @param editor Editor holding the local note
+   * @param file Local note
+   * @param direction Sync to preview
+   * @param mode Whether the sync would overwrite the other side
+   */
+  private async previewSync(
+    editor: Editor,
+    file: TFile,
+    direction: SyncDirection,
+    mode: SyncMode = 'normal'
+  ): Promise<void> {
+    const preview =
+      direction === 'push'
+        ? await this.previewPush(editor, file, mode)
+        : await this.previewPull(editor, file, mode);
+
+    ModalFactory.createSyncPreviewModal(this.app, preview, async () => {
+      try {
+        if (direction === 'push') {
+          await this.runOrQueue({ type: 'push', path: file.path }, () =>
+            this.runCancellable(signal =>
+              this.pushToHackMD(editor, file, mode, signal)
+            )
+          );
+        } else {
+          await this.runCancellable(signal =>
+            this.pullFromHackMD(editor, file, mode, signal)
+          );
+        }
+      } catch (error) {
+        this.handleCommandError(error);
+      }
+    }).open();
+  }
+
+  private async previewPush(
+    editor: Editor,
+    file: TFile,
+    mode: SyncMode
+  ): Promise<SyncPreview> {
+    const {
+      content: localContent,
+      frontmatter,
+      noteId,
+      provider,
+      account,
+    } = await this.prepareSync(editor, file);
+    const { content: localBody } = this.getFrontmatter(localContent);
+    const preview: SyncPreview = {
+      title: mode === 'force' ? 'Preview Force Push' : 'Preview Push',
+      confirmText: mode === 'force' ? 'Force Push' : 'Push',
+      sections: [],
+      warnings: [],
+    };
+
+    if (!noteId) {
+      const teamFolder =
+        provider === 'hackmd' ? this.getTeamFolder(file) : undefined;
+      const workspace = teamFolder
+        ? `the "${teamFolder.teamPath}" team workspace`
+        : `your personal ${PROVIDER_NAMES[provider]} workspace`;
+      preview.warnings.push(
+        `This note is not linked yet: a new ${PROVIDER_NAMES[provider]} note will be created in ${workspace} and its URL added to the frontmatter.`
+      );
+      preview.sections.push({
+        label: PROVIDER_NAMES[provider],
+        before: '',
+        after: this.getNewNoteContent(file, localContent),
+      });
+      return preview;
+    }
+
+    const client = await this.getProvider(provider, account);
+    const note = await client.getNote(noteId);
+    let content = localContent;
+    if (mode === 'normal') {
+      if (hasConflictMarkers(localBody)) {
+        preview.warnings.push(HackMDErrorType.SYNC_UNRESOLVED_CONFLICT);
+      } else if (this.hasRemoteChanges(file, localContent, note)) {
+        const body = this.previewMerge(
+          note,
+          file.path,
+          localBody,
+          frontmatter,
+          preview
+        );
+        content = this.replaceBody(localContent, body);
+      }
+    } else {
+      preview.warnings.push(
+        'Force Push overwrites the HackMD note, including any remote changes.'
+      );
+    }
+
+    const { content: pushedBody } = this.getFrontmatter(content);
+    const remoteContent = this.toRemoteContent(content, file.path);
+    const metadata = this.getPushMetadata(
+      { ...note, content: remoteContent },
+      file,
+      pushedBody,
+      account
+    );
+    preview.sections.push(
+      {
+        label: PROVIDER_NAMES[provider],
+        before: note.content || '',
+        after: remoteContent,
+      },
+      {
+        label: 'Obsidian',
+        before: localContent,
+        after: this.applyMetadata(content, metadata),
+      }
+    );
+    return preview;
+  }
+
+  private async previewPull(
+    editor: Editor,
+    file: TFile,
+    mode: SyncMode
+  ): Promise<SyncPreview> {
+    const {
+      content: localContent,
+      frontmatter,
+      noteId,
+      provider,
+      account,
+    } = await this.prepareSync(editor, file);
+    if (!noteId) {
+      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+    }
+    const preview: SyncPreview = {
+      title: mode === 'force' ? 'Preview Force Pull' : 'Preview Pull',
+      confirmText: mode === 'force' ? 'Force Pull' : 'Pull',
+      sections: [],
+      warnings: [],
+    };
+
+    const client = await this.getProvider(provider, account);
+    const note = await client.getNote(noteId);
+    const { content: localBody } = this.getFrontmatter(localContent);
+    const remoteBody = this.getRemoteBody(note, file.path, localBody);
+    const remoteContent = this.replaceBody(note.content || '', remoteBody);
+    let content = remoteContent;
+    if (mode === 'normal' && this.hasLocalChanges(file, localContent)) {
+      if (!this.hasRemoteChanges(file, localContent, note)) {
+        throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_LOCAL);
+      }
+      const body = this.previewMerge(
+        note,
+        file.path,
+        localBody,
+        frontmatter,
+        preview
+      );
+      content = this.replaceBody(remoteContent, body);
+    } else if (mode === 'force') {
+      preview.warnings.push(
+        'Force Pull overwrites the local note, including any local changes.'
+      );
+    }
+
+    const metadata = this.withConfirmedHash(
+      this.buildSyncMetadata(note, file.basename, remoteBody, account),
+      note
+    );
+    preview.sections.push({
+      label: 'Obsidian',
+      before: localContent,
+      after: this.applyMetadata(
+        this.withLocalFrontmatter(content, localContent),
+        metadata
+      ),
+    });
+    return preview;
+  }
+
+  /**
+   * Merges both sides the way a sync would, without asking the user
+   * @param note Current remote note
+   * @param sourcePath Path of the local note
+   * @param localBody Current local content without frontmatter
+   * @param frontmatter Current frontmatter of the local note
+   * @param preview Preview receiving a warning when the merge needs the user
+   * @returns The merged body, with conflict markers around overlaps
+   */
+  private previewMerge(
+    note: HackMDNote,
+    sourcePath: string,
+    localBody: string,
+    frontmatter: NoteFrontmatter | null,
+    preview: SyncPreview
+  ): string {
+    const baseBody = this.getMergeBase(note.id, frontmatter);
+    if (baseBody === undefined) {
+      preview.warnings.push(
+        'Both sides changed, but the content of the last sync is unknown, so they cannot be merged. Use a Force command to keep one side.'
+      );
+      return localBody;
+    }
+
+    const remoteBody = this.getRemoteBody(note, sourcePath, localBody);
+    const merge = threeWayMerge(baseBody, localBody, remoteBody);
+    if (merge.conflicts > 0) {
+      preview.warnings.push(
+        `${merge.conflicts} change(s) overlap and will have to be resolved. They are shown between conflict markers.`
+      );
+    }
+    return renderMerge(merge);
+  }
+
+  /**
+   * Pushes or pulls every linked note that changed on one side only,
+   * then shows a report of what happened to each of them
+   */
+  private async syncAllLinkedNotes(): Promise<void> {
+    const linkedNotes = this.getLinkedNotes();
+    await this.runCancellable(async (signal, cancel) => {
+      const modal = ModalFactory.createSyncProgressModal(
+        this.app,
+        'Syncing linked notes',
+        cancel
+      );
+      modal.open();
+
+      const entries: BulkSyncEntry[] = [];
+      for (const [index, { file, ...link }] of linkedNotes.entries()) {
+        if (signal.aborted) break;
+        modal.setProgress(index, linkedNotes.length, file.path);
+        try {
+          const client = await this.getProvider(link.provider, link.account);
+          entries.push(await this.syncLinkedFile(client, file, link, signal));
+        } catch (error) {
+          console.error(`Failed to sync ${file.path}:`, error);
+          entries.push({
+            path: file.path,
+            status: 'failed',
+            reason: error.message,
+          });
+        }
+      }
+
+      modal.showReport(entries, SYNC_REPORT_LABELS, signal.aborted);
+    });
+  }
+
+  /**
+   * Lists every markdown file linked to a HackMD note, through its
+   * frontmatter or the sync state
+   */
+  private getLinkedNotes(): Array<NoteLink & { file: TFile }> {
+    return this.app.vault.getMarkdownFiles().flatMap(file => {
+      const link = this.getNoteLink(file);
+      return link ? [{ file, ...link }] : [];
+    });
+  }
+
+  private getNoteLink(file: TFile): NoteLink | undefined {
+    const frontmatter =
+      this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    const link = metadata.url ? this.parseNoteUrl(metadata.url) : undefined;
+    return (
+      link && {
+        noteId: link.noteId,
+        provider: metadata.provider ?? link.provider,
+        account: this.getNoteAccount(file, metadata, link),
+      }
+    );
+  }
+
+  /**
+   * Syncs a linked note without an editor, merging only when nothing overlaps
+   * @param client Authenticated client of the service the note is stored on
+   * @param file Linked note
+   * @param link Remote note the file is linked to
+   * @param signal Cancels the sync when aborted
+   * @returns What was done with the note
+   */
+  private async syncLinkedFile(
+    client: RemoteProvider,
+    file: TFile,
+    { noteId, account }: NoteLink,
+    signal?: AbortSignal
+  ): Promise<BulkSyncEntry> {
+    const localContent = await this.app.vault.read(file);
+    const { frontmatter, content: localBody } =
+      this.getFrontmatter(localContent);
+    const note = await client.getNote(noteId, signal);
+    const remoteBody = this.getRemoteBody(note, file.path, localBody);
+    const remoteContent = this.replaceBody(note.content || '', remoteBody);
+
+    const localChanged = this.hasLocalChanges(file, localContent);
+    const remoteChanged = this.hasRemoteChanges(file, localContent, note);
+    const conflicted = (reason: HackMDErrorType): BulkSyncEntry => ({
+      path: file.path,
+      status: 'conflicted',
+      reason,
+    });
+
+    if (!localChanged && !remoteChanged) {
+      return { path: file.path, status: 'skipped' };
+    }
+
+    if (!localChanged) {
+      await this.recordFileSync(
+        file,
+        note,
+        remoteBody,
+        {
+          from: localContent,
+          to: this.withLocalFrontmatter(remoteContent, localContent),
+        },
+        account
+      );
+      return { path: file.path, status: 'pulled' };
+    }
+
+    if (hasConflictMarkers(localBody)) {
+      return conflicted(HackMDErrorType.SYNC_UNRESOLVED_CONFLICT);
+    }
+
+    let body = localBody;
+    if (remoteChanged) {
+      const baseBody = this.getMergeBase(noteId, frontmatter);
+      if (baseBody === undefined) {
+        return conflicted(HackMDErrorType.SYNC_CONFLICT_BOTH);
+      }
+      const merge = threeWayMerge(baseBody, localBody, remoteBody);
+      if (merge.conflicts > 0) {
+        return conflicted(HackMDErrorType.SYNC_CONFLICT_BOTH);
+      }
+      body = renderMerge(merge);
+    }
+
+    const content = this.replaceBody(localContent, body);
+    const result = await this.updateRemoteNote(
+      client,
+      noteId,
+      {
+        content: this.toRemoteContent(content, file.path),
+        ...getFrontmatterNoteOptions(frontmatter),
+      },
+      note.teamPath,
+      signal,
+      note
+    );
+    await this.recordFileSync(
+      file,
+      result,
+      body,
+      body === localBody ? undefined : { from: localContent, to: content },
+      account
+    );
+    return { path: file.path, status: 'pushed' };
+  }
+
+  /**
+   * Pushes an opted-in note after it was edited, without any editor
+   * @param path Path of the note to push
+   * @throws HackMDError when the remote changed too, so auto-push stops
+   */
+  private async autoPushNote(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile && this.isAutoPushEnabled(file)) {
+      await this.pushFile(file);
+    }
+  }
+
+  /**
+   * Pushes a note without an editor, refusing to merge remote changes
+   * @param file Note to push, created on HackMD when not linked yet
+   * @throws HackMDError when the remote changed since the last sync
+   */
+  private async pushFile(file: TFile): Promise<void> {
+    const localContent = await this.app.vault.read(file);
+    const { frontmatter, content: localBody } =
+      this.getFrontmatter(localContent);
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    const link = metadata.url ? this.parseNoteUrl(metadata.url) : undefined;
+    const account = this.getNoteAccount(file, metadata, link);
+
+    if (!link) {
+      const result = await this.pushNewNote(file, localContent, account);
+      await this.recordFileSync(file, result, localBody, undefined, account);
+      new Notice(`Pushed ${file.basename} to HackMD`);
+      return;
+    }
+
+    // Writing the sync metadata triggers another modify event
+    if (!this.hasLocalChanges(file, localContent)) {
+      return;
+    }
+    if (hasConflictMarkers(localBody)) {
+      throw new HackMDError(HackMDErrorType.SYNC_UNRESOLVED_CONFLICT);
+    }
+    const client = await this.getProvider(
+      metadata.provider ?? link.provider,
+      account
+    );
+    const note = await client.getNote(link.noteId);
+    if (this.hasRemoteChanges(file, localContent, note)) {
+      throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE);
+    }
+
+    const result = await this.updateRemoteNote(
+      client,
+      link.noteId,
+      {
+        content: this.toRemoteContent(localContent, file.path),
+        ...getFrontmatterNoteOptions(frontmatter),
+      },
+      note.teamPath,
+      undefined,
+      note
+    );
+    await this.recordFileSync(file, result, localBody, undefined, account);
+  }
+
+  private handleAutoPushError(path: string, error: Error): void {
+    if (this.isConnectionError(error)) {
+      this.offlineQueue
+        .enqueue({ type: 'push', path })
+        .catch(queueError => this.handleCommandError(queueError));
+      return;
+    }
+
+    console.error(`Auto-push failed for ${path}:`, error);
+    const paused = this.autoPush.isSuspended(path)
+      ? ' Auto-push is paused for this note until you Push or Pull it.'
+      : '';
+    new Notice(`Auto-push of ${path} failed: ${error.message}${paused}`);
+  }
+
+  /**
+   * Checks whether a note opted into auto-push, through its frontmatter
+   * `autoPush` flag or one of the auto-push folders
+   */
+  private isAutoPushEnabled(file: TFile): boolean {
+    if (file.extension !== 'md') return false;
+
+    const flag =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.autoPush;
+    if (typeof flag === 'boolean') return flag;
+
+    return this.settings.autoPushFolders.some(folder =>
+      this.isInFolder(file, folder)
+    );
+  }
+
+  /**
+   * Records a sync done without an editor in the note and the sync state
+   * @param file Synced note
+   * @param note Remote note as of the sync
+   * @param body Body both sides agree on after the sync
+   * @param change Content the sync read and the one replacing it, when the
+   * sync changed more than metadata
+   * @param account Named HackMD account the note was synced with
+   * @throws HackMDError when the note was edited during the sync in a way
+   * that overlaps the change, leaving the note and sync state as they were
+   */
+  private async recordFileSync(
+    file: TFile,
+    note: HackMDNote,
+    body: string,
+    change?: { from: string; to: string },
+    account?: string
+  ): Promise<void> {
+    const metadata = this.withConfirmedHash(
+      this.buildSyncMetadata(note, file.basename, body, account),
+      note
+    );
+    let overlapping = false;
+    // Edits made while the request was running are in data, not in change
+    await this.app.vault.process(file, data => {
+      if (!change || data === change.from) {
+        return this.applyMetadata(change?.to ?? data, metadata);
+      }
+      const merge = threeWayMerge(change.from, data, change.to);
+      if (merge.conflicts > 0) {
+        overlapping = true;
+        return data;
+      }
+      return this.applyMetadata(renderMerge(merge), metadata);
+    });
+    if (overlapping) {
+      throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_BOTH);
+    }
+    await this.recordSync(file, note, metadata, body);
+  }
+
+  /**
+   * Records a sync in the sync state, next to the note's frontmatter
+   * @param file Synced note
+   * @param note Remote note as of the sync
+   * @param metadata Sync metadata written to the note
+   * @param body Body both sides agree on after the sync
+   */
+  private async recordSync(
+    file: TFile,
+    note: HackMDNote,
+    metadata: Partial<HackMDMetadata>,
+    body: string
+  ): Promise<void> {
+    const { readPermission, writePermission, commentPermission } = note;
+    const changedAt = note.lastChangedAt || note.createdAt;
+    await this.syncState.update(note.id, {
+      ...metadata,
+      path: file.path,
+      base: body,
+      lastRemoteChange: changedAt,
+      knownRemoteChange: changedAt,
+      permissions: { readPermission, writePermission, commentPermission },
+    });
+  }
+
+  /**
+   * Records when each note last changed on HackMD and HedgeDoc, using the list
+   * endpoints of each account and of the teams of its linked notes. The
+   * active note is read when it isn't listed or changed, so a change that
+   * left its body as synced, e.g. of permissions, isn't reported
+   */
+  private async pollRemoteChanges(): Promise<void> {
+    const accounts = this.settings.accessToken
+      ? [undefined, ...this.getAccountNames()]
+      : this.getAccountNames();
+    const notes: HackMDNoteSummary[] = [];
+    for (const account of accounts) {
+      notes.push(
+        ...(await this.listPolledNotes(account ?? 'HackMD', async () => {
+          const client = await this.getClient(account);
+          const list = await client.getNoteList();
+          // Team notes are not part of the personal list
+          for (const teamPath of this.getLinkedTeams(account)) {
+            list.push(...(await client.getTeamNoteList(teamPath)));
+          }
+          return list;
+        }))
+      );
+    }
+    if (this.settings.hedgedocUrl && this.settings.hedgedocToken) {
+      notes.push(
+        ...(await this.listPolledNotes('HedgeDoc', async () => {
+          const hedgedoc = await this.getProvider('hedgedoc');
+          return hedgedoc.getNoteList();
+        }))
+      );
+    }
+
+    try {
+      const changes = new Map(
+        notes.map(note => [note.id, note.lastChangedAt || note.createdAt])
+      );
+      await this.syncState.updateRemoteChanges(changes);
+
+      const activeFile = this.app.workspace.getActiveFile();
+      const active = activeFile ? this.getNoteLink(activeFile) : undefined;
+      const listed = active && changes.get(active.noteId);
+      if (
+        activeFile &&
+        active &&
+        (!listed ||
+          isUnknownRemoteChange(this.syncState.get(active.noteId), listed) !==
+            false)
+      ) {
+        await this.checkRemoteBody(activeFile, active);
+      }
+    } catch (error) {
+      // Polling is best effort, commands report errors when run
+      console.debug('Failed to check HackMD for changes:', error);
+    }
+
+    await this.refreshStatusBar();
+  }
+
+  /**
+   * Lists the notes of one polled account, so that an account that can't be
+   * reached doesn't stop the others from being checked
+   * @param source Name of the account, used in the debug log
+   * @param list Lists the notes of the account
+   */
+  private async listPolledNotes(
+    source: string,
+    list: () => Promise<HackMDNoteSummary[]>
+  ): Promise<HackMDNoteSummary[]> {
+    try {
+      return await list();
+    } catch (error) {
+      console.debug(`Failed to check ${source} for changes:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Reads a linked note to tell a change of its body from one that left it
+   * as synced
+   */
+  private async checkRemoteBody(file: TFile, link: NoteLink): Promise<void> {
+    const provider = await this.getProvider(link.provider, link.account);
+    const note = await provider.getNote(link.noteId);
+    const changedAt = note.lastChangedAt || note.createdAt;
+    const content = await this.app.vault.cachedRead(file);
+    if (this.hasRemoteChanges(file, content, note)) {
+      await this.syncState.updateRemoteChanges(new Map([[note.id, changedAt]]));
+    } else {
+      await this.syncState.confirmRemoteChange(note.id, changedAt);
+    }
+  }
 
-    new Notice('Successfully pulled from HackMD!');
+  private async refreshStatusBar(): Promise<void> {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== 'md') {
+      this.statusBar.setStatus(null);
+      return;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    this.statusBar.setStatus(this.getSyncStatus(file, content));
+  }
+
+  /**
+   * Works out the sync state of a note from its content and the last poll
+   * @param file Local note
+   * @param content Local note content, holding the sync metadata
+   */
+  private getSyncStatus(file: TFile, content: string): SyncStatus {
+    const { frontmatter } = this.getFrontmatter(content);
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    const noteId = metadata.url
+      ? this.getNoteIdFromUrl(metadata.url)
+      : undefined;
+    if (!noteId) {
+      return 'unlinked';
+    }
+
+    let localChanged: boolean;
+    let lastSyncTime: number;
+    try {
+      localChanged = this.hasLocalChanges(file, content);
+      lastSyncTime = this.getLastSyncTime(metadata);
+    } catch {
+      // Without sync metadata neither side can be trusted
+      return 'diverged';
+    }
+
+    const entry = this.syncState.get(noteId);
+    const remoteChangedAt = entry?.lastRemoteChange;
+    const remoteChanged =
+      remoteChangedAt !== undefined &&
+      // Notes synced before known changes were recorded compare timestamps
+      (isUnknownRemoteChange(entry, remoteChangedAt) ??
+        new Date(remoteChangedAt).getTime() - lastSyncTime >
+          this.SYNC_TIME_MARGIN);
+
+    if (localChanged && remoteChanged) return 'diverged';
+    if (localChanged) return 'local-ahead';
+    if (remoteChanged) return 'remote-ahead';
+    return 'in-sync';
+  }
+
+  /**
+   * Runs Push or Pull on the active note, as chosen from the status bar
+   */
+  private async syncActiveNote(direction: SyncDirection): Promise<void> {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const callback = (editor: Editor, file: TFile) =>
+      this.runCancellable(signal =>
+        direction === 'push'
+          ? this.pushToHackMD(editor, file, 'normal', signal)
+          : this.pullFromHackMD(editor, file, 'normal', signal)
+      );
+    await this.createEditorCallback(callback)(view?.editor, view ?? undefined);
+  }
+
+  private async copyHackMDUrl(editor: Editor, file: TFile): Promise<void> {
+    const { noteId, provider, account } = await this.prepareSync(editor, file);
+
+    if (!noteId) {
+      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+    }
+
+    await navigator.clipboard.writeText(
+      this.getNoteUrl(noteId, provider, account)
+    );
+    new Notice(`${PROVIDER_NAMES[provider]} URL copied to clipboard!`);
+  }
+
+  /**
+   * Copies the reader-facing link of a published note
+   */
+  private async copyPublishedUrl(editor: Editor, file: TFile): Promise<void> {
+    const { noteId, provider, account } = await this.prepareSync(editor, file);
+
+    if (!noteId) {
+      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+    }
+
+    const client = await this.getHackMDClient(provider, account);
+    const note = await client.getNote(noteId);
+    const url = getPublishedUrl(note);
+    if (!url) {
+      throw new HackMDError(HackMDErrorType.NOT_PUBLISHED);
+    }
+
+    await navigator.clipboard.writeText(url);
+    new Notice('Published URL copied to clipboard!');
+  }
+
+  /**
+   * Lets the user publish a linked note as an editable note, a view, slide or book
+   */
+  private async setPublishType(editor: Editor, file: TFile): Promise<void> {
+    const { noteId, provider, account, teamPath, frontmatter } =
+      await this.prepareSync(editor, file);
+    if (!noteId) {
+      throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
+    }
+
+    const client = await this.getHackMDClient(provider, account);
+    const note = await client.getNote(noteId);
+
+    const modal = ModalFactory.createPublishTypeModal(
+      this.app,
+      note.publishType,
+      async publishType => {
+        let updated: HackMDNote | undefined;
+        await this.runOrQueue(
+          {
+            type: 'update',
+            path: file.path,
+            noteId,
+            account,
+            teamPath,
+            options: { publishType },
+          },
+          async () => {
+            updated = await this.updateRemoteNote(
+              client,
+              noteId,
+              { publishType },
+              teamPath
+            );
+          }
+        );
+
+        // A declared publish type would undo the change on the next push
+        if (frontmatter?.[PUBLISH_TYPE_KEY]) {
+          this.writeFrontmatterPublishType(editor, publishType);
+        }
+        if (updated) {
+          const metadata = this.getPublishMetadata(updated);
+          await this.updateLocalNote({
+            editor: this.obsidianService.createEditorAdapter(editor),
+            metadata,
+          });
+          await this.syncState.update(noteId, { path: file.path, ...metadata });
+        }
+        new Notice('Publish type updated on HackMD!');
+      }
+    );
+    modal.open();
   }
 
-  private async copyHackMDUrl(editor: Editor): Promise<void> {
-    const { noteId } = await this.prepareSync(editor);
+  private writeFrontmatterPublishType(
+    editor: Editor,
+    publishType: NotePublishType
+  ): void {
+    const editorAdapter = this.obsidianService.createEditorAdapter(editor);
+    const { frontmatter, content } = this.getFrontmatter(
+      editorAdapter.getValue()
+    );
+    editorAdapter.setValue(
+      this.combine({ ...frontmatter, [PUBLISH_TYPE_KEY]: publishType }, content)
+    );
+  }
 
+  /**
+   * Lets the user change the permissions of a linked note on HackMD
+   */
+  private async changePermissions(editor: Editor, file: TFile): Promise<void> {
+    const { noteId, provider, account, teamPath, frontmatter } =
+      await this.prepareSync(editor, file);
     if (!noteId) {
       throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
     }
 
-    await navigator.clipboard.writeText(getUrlFromId(noteId));
-    new Notice('HackMD URL copied to clipboard!');
+    const client = await this.getHackMDClient(provider, account);
+    const note = await client.getNote(noteId);
+    const current: NotePermissions = {
+      readPermission: note.readPermission,
+      writePermission: note.writePermission,
+      commentPermission: note.commentPermission,
+    };
+
+    const modal = ModalFactory.createPermissionsModal(
+      this.app,
+      current,
+      async permissions => {
+        await this.runOrQueue(
+          {
+            type: 'update',
+            path: file.path,
+            noteId,
+            account,
+            teamPath,
+            options: permissions,
+          },
+          async () => {
+            await this.updateRemoteNote(client, noteId, permissions, teamPath);
+          }
+        );
+        await this.syncState.update(noteId, { path: file.path, permissions });
+
+        // Declared permissions would undo the change on the next push
+        if (Object.keys(getFrontmatterPermissions(frontmatter)).length > 0) {
+          this.writeFrontmatterPermissions(editor, permissions);
+        }
+        new Notice('Permissions updated on HackMD!');
+      }
+    );
+    modal.open();
+  }
+
+  private writeFrontmatterPermissions(
+    editor: Editor,
+    permissions: NotePermissions
+  ): void {
+    const editorAdapter = this.obsidianService.createEditorAdapter(editor);
+    const { frontmatter, content } = this.getFrontmatter(
+      editorAdapter.getValue()
+    );
+    const updated: NoteFrontmatter = { ...frontmatter };
+    for (const [field, key] of Object.entries(PERMISSION_KEYS)) {
+      const value = permissions[field as keyof NotePermissions];
+      if (value) {
+        updated[key] = value;
+      }
+    }
+    editorAdapter.setValue(this.combine(updated, content));
   }
 
   private async deleteHackMDNote(editor: Editor, file: TFile): Promise<void> {
-    const client = await this.getClient();
-    const { frontmatter } = await this.prepareSync(editor);
-    const noteId = frontmatter?.url ? getIdFromUrl(frontmatter.url) : undefined;
+    const { noteId, provider, account, teamPath } = await this.prepareSync(
+      editor,
+      file
+    );
 
     if (!noteId) {
       throw new HackMDError(HackMDErrorType.SYNC_NOT_LINKED);
@@ -412,8 +2162,22 @@ export default class HackMDPlugin extends Plugin {
       this.app,
       file.basename,
       async () => {
-        await client.deleteNote(noteId);
+        await this.runOrQueue(
+          {
+            type: 'delete',
+            path: file.path,
+            noteId,
+            provider,
+            account,
+            teamPath,
+          },
+          async () => {
+            const client = await this.getProvider(provider, account);
+            await this.deleteRemoteNote(client, noteId, teamPath);
+          }
+        );
         await this.cleanupHackMDMetadata(editor);
+        await this.syncState.remove(noteId);
         new Notice('Successfully unlinked note from HackMD!');
       }
     );
@@ -421,7 +2185,158 @@ export default class HackMDPlugin extends Plugin {
     modal.open();
   }
 
-  private async prepareSync(editor: Editor): Promise<SyncPrepareResult> {
+  /**
+   * Runs a mutation, queueing it for later when HackMD is unreachable
+   * @param operation Queued description of the mutation
+   * @param action Mutation to run now
+   */
+  private async runOrQueue(
+    operation: PendingOperation,
+    action: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      if (!this.isConnectionError(error)) {
+        throw error;
+      }
+      await this.offlineQueue.enqueue(operation);
+      new Notice(
+        `HackMD is unreachable. ${describeOperation(operation)} was queued and will run once you are back online.`
+      );
+    }
+  }
+
+  private isConnectionError(error: unknown): boolean {
+    return (
+      error instanceof HackMDError &&
+      (error.type === HackMDErrorType.CONNECTION_FAILED ||
+        error.type === HackMDErrorType.REQUEST_TIMEOUT)
+    );
+  }
+
+  /**
+   * Checks whether the server a queued operation goes to answers. Other
+   * errors, e.g. a missing token, let the operation run and report them
+   */
+  private async isOperationReachable(
+    operation: QueuedOperation
+  ): Promise<boolean> {
+    try {
+      const provider = await this.getOperationProvider(operation);
+      await provider?.checkConnection();
+      return true;
+    } catch (error) {
+      return !this.isConnectionError(error);
+    }
+  }
+
+  // Provider and account a queued operation is sent with, as it will run
+  private async getOperationProvider(
+    operation: QueuedOperation
+  ): Promise<RemoteProvider | undefined> {
+    switch (operation.type) {
+      case 'push': {
+        const file = this.app.vault.getAbstractFileByPath(operation.path);
+        if (!(file instanceof TFile)) return undefined;
+        const { frontmatter } = this.getFrontmatter(
+          await this.app.vault.read(file)
+        );
+        const metadata = this.getSyncMetadata(file, frontmatter);
+        const link = metadata.url ? this.parseNoteUrl(metadata.url) : undefined;
+        return this.getProvider(
+          metadata.provider ?? link?.provider ?? this.settings.defaultProvider,
+          this.getNoteAccount(file, metadata, link)
+        );
+      }
+      case 'delete':
+        return this.getProvider(
+          operation.provider ?? 'hackmd',
+          operation.account
+        );
+      case 'update':
+        return this.getClient(operation.account);
+    }
+  }
+
+  private async runQueuedOperation(operation: QueuedOperation): Promise<void> {
+    switch (operation.type) {
+      case 'push': {
+        const file = this.app.vault.getAbstractFileByPath(operation.path);
+        if (file instanceof TFile) {
+          await this.pushFile(file);
+        }
+        break;
+      }
+      case 'delete':
+        await this.deleteRemoteNote(
+          await this.getProvider(
+            operation.provider ?? 'hackmd',
+            operation.account
+          ),
+          operation.noteId,
+          operation.teamPath
+        );
+        break;
+      case 'update':
+        await this.updateRemoteNote(
+          await this.getClient(operation.account),
+          operation.noteId,
+          operation.options,
+          operation.teamPath
+        );
+        break;
+    }
+  }
+
+  /**
+   * Updates a note through the endpoints of the workspace it belongs to
+   * @param teamPath Team of the note, undefined for personal notes
+   * @param before The note as last read, saving a read when HackMD applies
+   * the update later
+   */
+  private async updateRemoteNote(
+    client: RemoteProvider,
+    noteId: string,
+    options: NoteOptions,
+    teamPath?: string,
+    signal?: AbortSignal,
+    before?: HackMDNote
+  ): Promise<HackMDNote> {
+    if (!(client instanceof HackMDClient)) {
+      return client.updateNote(noteId, options, signal);
+    }
+    return teamPath
+      ? client.updateTeamNote(teamPath, noteId, options, signal, before)
+      : client.updateNote(noteId, options, signal, before);
+  }
+
+  private async deleteRemoteNote(
+    client: RemoteProvider,
+    noteId: string,
+    teamPath?: string
+  ): Promise<void> {
+    if (teamPath && client instanceof HackMDClient) {
+      await client.deleteTeamNote(teamPath, noteId);
+    } else {
+      await client.deleteNote(noteId);
+    }
+  }
+
+  private handleDroppedOperation(
+    operation: QueuedOperation,
+    error: Error
+  ): void {
+    console.error('Queued operation failed:', operation, error);
+    new Notice(
+      `${describeOperation(operation)} was dropped from the offline queue: ${error.message}`
+    );
+  }
+
+  private async prepareSync(
+    editor: Editor,
+    file: TFile
+  ): Promise<SyncPrepareResult> {
     if (!editor) {
       throw new HackMDError(HackMDErrorType.NO_ACTIVE_NOTE);
     }
@@ -430,8 +2345,39 @@ export default class HackMDPlugin extends Plugin {
     const editorAdapter = this.obsidianService.createEditorAdapter(editor);
     const content = editorAdapter.getValue();
     const { frontmatter } = this.getFrontmatter(content);
-    const noteId = frontmatter?.url ? getIdFromUrl(frontmatter.url) : undefined;
-    return { content, frontmatter, noteId };
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    const link = metadata.url ? this.parseNoteUrl(metadata.url) : undefined;
+    return {
+      content,
+      frontmatter,
+      noteId: link?.noteId,
+      // Unlinked notes are created on the default provider
+      provider:
+        metadata.provider ?? link?.provider ?? this.settings.defaultProvider,
+      account: this.getNoteAccount(file, metadata, link),
+      teamPath: metadata.teamPath,
+    };
+  }
+
+  /**
+   * Combines the sync state of a note with its frontmatter, which wins where
+   * both are set
+   * @param file Local note
+   * @param frontmatter Parsed frontmatter of the note
+   */
+  private getSyncMetadata(
+    file: TFile,
+    frontmatter: NoteFrontmatter | null
+  ): Partial<HackMDMetadata> {
+    const entry = this.syncState.getByPath(file.path);
+    // A URL in the frontmatter pointing elsewhere means the note was re-linked
+    const relinked =
+      typeof frontmatter?.url === 'string' &&
+      this.getNoteIdFromUrl(frontmatter.url) !== entry?.noteId;
+    return {
+      ...(relinked ? {} : pickSyncMetadata(entry)),
+      ...pickSyncMetadata(frontmatter),
+    };
   }
 
   private getFrontmatter(content: string): {
@@ -454,47 +2400,233 @@ export default class HackMDPlugin extends Plugin {
     }
   }
 
-  private async checkPushConflicts(file: TFile, noteId: string): Promise<void> {
-    const client = await this.getClient();
-    const note = await client.getNote(noteId);
-    const content = await this.app.vault.read(file);
-    const { frontmatter } = this.getFrontmatter(content);
-    const lastSyncStr = frontmatter?.lastSync;
-
-    if (!lastSyncStr) {
-      throw new HackMDError(HackMDErrorType.SYNC_METADATA_MISSING);
+  /**
+   * Checks whether the remote body changed since the last sync
+   * @param file Local note, used to look up its sync state
+   * @param localContent Local note content, holding the sync metadata
+   * @param note Current remote note
+   */
+  private hasRemoteChanges(
+    file: TFile,
+    localContent: string,
+    note: HackMDNote
+  ): boolean {
+    const { frontmatter } = this.getFrontmatter(localContent);
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    if (metadata.remoteHash) {
+      const { content: remoteBody } = this.getFrontmatter(note.content || '');
+      return hashContent(remoteBody) !== metadata.remoteHash;
     }
 
-    const lastSyncTime = new Date(lastSyncStr).getTime();
+    // Notes linked before content hashes existed fall back to timestamps
+    const lastSyncTime = this.getLastSyncTime(metadata);
     const remoteModTime = new Date(
       note.lastChangedAt || note.createdAt
     ).getTime();
 
-    if (remoteModTime - lastSyncTime > this.SYNC_TIME_MARGIN) {
-      throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE);
+    return remoteModTime - lastSyncTime > this.SYNC_TIME_MARGIN;
+  }
+
+  /**
+   * Checks whether the local body changed since the last sync
+   * @param file Local note, used for its sync state and timestamp fallback
+   * @param localContent Local note content, holding the sync metadata
+   */
+  private hasLocalChanges(file: TFile, localContent: string): boolean {
+    const { frontmatter, content: localBody } =
+      this.getFrontmatter(localContent);
+    const metadata = this.getSyncMetadata(file, frontmatter);
+    if (metadata.localHash) {
+      return hashContent(localBody) !== metadata.localHash;
     }
+
+    const lastSyncTime = this.getLastSyncTime(metadata);
+    const localModTime = file.stat.mtime;
+
+    return localModTime - lastSyncTime > this.SYNC_TIME_MARGIN;
   }
 
-  private async checkPullConflicts(file: TFile): Promise<void> {
-    const content = await this.app.vault.read(file);
-    const { frontmatter } = this.getFrontmatter(content);
-    const lastSyncStr = frontmatter?.lastSync;
+  private getLastSyncTime(metadata: Partial<HackMDMetadata>): number {
+    const lastSyncStr = metadata.lastSync;
 
     if (!lastSyncStr) {
       throw new HackMDError(HackMDErrorType.SYNC_METADATA_MISSING);
     }
 
-    const lastSyncTime = new Date(lastSyncStr).getTime();
-    const localModTime = file.stat.mtime;
+    return new Date(lastSyncStr).getTime();
+  }
+
+  /**
+   * Builds the sync metadata recorded after a successful Push or Pull
+   * @param note Remote note as of the sync
+   * @param fallbackTitle Title used when the remote note has none
+   * @param syncedBody Body both sides agree on after the sync
+   * @param account Named HackMD account the note was synced with
+   */
+  private buildSyncMetadata(
+    note: HackMDNote,
+    fallbackTitle: string,
+    syncedBody: string,
+    account?: string
+  ): Partial<HackMDMetadata> {
+    // Accounts only apply to HackMD notes
+    const hackmdAccount = note.provider ? undefined : account;
+    const metadata: Partial<HackMDMetadata> = {
+      url: this.getNoteUrl(note.id, note.provider, hackmdAccount),
+      title: note.title || fallbackTitle,
+      lastSync: new Date().toISOString(),
+      ...this.getSyncHashes(syncedBody, syncedBody),
+    };
+
+    if (note.provider) {
+      metadata.provider = note.provider;
+    }
+    if (hackmdAccount) {
+      metadata[ACCOUNT_KEY] = hackmdAccount;
+    }
+    if (note.teamPath) {
+      metadata.teamPath = note.teamPath;
+    }
+
+    return { ...metadata, ...this.getPublishMetadata(note) };
+  }
+
+  /**
+   * Takes the remote hash from the content HackMD confirmed storing, which
+   * may differ from the pushed one, e.g. by trailing whitespace or links
+   * converted from wikilinks
+   * @param note Remote note as of the sync, after the update was applied
+   */
+  private withConfirmedHash(
+    metadata: Partial<HackMDMetadata>,
+    note: HackMDNote
+  ): Partial<HackMDMetadata> {
+    if (typeof note.content !== 'string') {
+      return metadata;
+    }
+    const { content: remoteBody } = this.getFrontmatter(note.content);
+    return { ...metadata, remoteHash: hashContent(remoteBody) };
+  }
+
+  /**
+   * Gets the reader-facing links of a note, when it is published
+   */
+  private getPublishMetadata(
+    note: HackMDNote
+  ): Pick<HackMDMetadata, 'publishLink' | 'permalink'> {
+    const publishLink = getPublishedUrl(note);
+    if (!publishLink) {
+      return {};
+    }
+    return note.permalink
+      ? { publishLink, permalink: note.permalink }
+      : { publishLink };
+  }
+
+  private getSyncHashes(
+    localBody: string,
+    remoteBody: string
+  ): Pick<HackMDMetadata, 'localHash' | 'remoteHash'> {
+    return {
+      localHash: hashContent(localBody),
+      remoteHash: hashContent(remoteBody),
+    };
+  }
+
+  /**
+   * Merges local and remote edits against the body saved at the last sync
+   * @param editor Editor holding the local note
+   * @param file Local note
+   * @param note Current remote note
+   * @param localBody Current local content without frontmatter
+   * @returns The merged body, settled by the user when changes overlap
+   * @throws HackMDError when no base is known, when the user cancels, or
+   * when conflict markers were written to the local note instead
+   */
+  private async mergeChanges(
+    editor: Editor,
+    file: TFile,
+    note: HackMDNote,
+    localBody: string
+  ): Promise<MergeOutcome> {
+    const { frontmatter } = this.getFrontmatter(editor.getValue());
+    const baseBody = this.getMergeBase(note.id, frontmatter);
+    if (baseBody === undefined) {
+      // Notes synced before bases were saved can't be merged
+      throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE);
+    }
+
+    const remoteBody = this.getRemoteBody(note, file.path, localBody);
+    const merge = threeWayMerge(baseBody, localBody, remoteBody);
+    if (merge.conflicts === 0) {
+      return { body: renderMerge(merge), resolvedByUser: false };
+    }
 
-    if (localModTime - lastSyncTime > this.SYNC_TIME_MARGIN) {
-      throw new HackMDError(HackMDErrorType.SYNC_CONFLICT_LOCAL);
+    if (this.settings.conflictResolution === 'modal') {
+      const body = await this.promptConflictResolution(merge);
+      if (body === null) {
+        throw new HackMDError(HackMDErrorType.SYNC_CANCELLED);
+      }
+      return { body, resolvedByUser: true };
     }
+
+    // The note now holds the remote changes, so the remote becomes the base
+    const editorAdapter = this.obsidianService.createEditorAdapter(editor);
+    const metadata = this.withConfirmedHash(
+      {
+        lastSync: new Date().toISOString(),
+        ...this.getSyncHashes(remoteBody, remoteBody),
+      },
+      note
+    );
+    await this.updateLocalNote({
+      editor: editorAdapter,
+      content: this.replaceBody(editorAdapter.getValue(), renderMerge(merge)),
+      metadata,
+    });
+    await this.recordSync(file, note, metadata, remoteBody);
+
+    throw new HackMDError(HackMDErrorType.SYNC_MERGE_CONFLICT);
+  }
+
+  private async promptConflictResolution(
+    merge: MergeResult
+  ): Promise<string | null> {
+    return new Promise<string | null>(resolve => {
+      ModalFactory.createConflictModal(this.app, merge, async body => {
+        resolve(body);
+      }).open();
+    });
+  }
+
+  /**
+   * Looks up the body saved at the last sync of a note
+   * @param noteId HackMD ID of the note
+   * @param frontmatter Current frontmatter of the local note
+   * @returns The base, unless the note was synced since from another device
+   */
+  private getMergeBase(
+    noteId: string,
+    frontmatter: NoteFrontmatter | null
+  ): string | undefined {
+    const entry = this.syncState.get(noteId);
+    const syncedElsewhere =
+      entry?.lastSync !== undefined &&
+      typeof frontmatter?.lastSync === 'string' &&
+      new Date(frontmatter.lastSync) > new Date(entry.lastSync);
+    return syncedElsewhere ? undefined : entry?.base;
   }
 
   private async updateLocalNote(params: UpdateLocalNoteParams): Promise<void> {
     const { editor, metadata } = params;
     const baseContent = params.content ?? editor.getValue();
+    editor.setValue(this.applyMetadata(baseContent, metadata));
+  }
+
+  private applyMetadata(
+    baseContent: string,
+    metadata: Partial<HackMDMetadata>
+  ): string {
     const { frontmatter, content: noteContent } =
       this.getFrontmatter(baseContent);
 
@@ -514,12 +2646,9 @@ export default class HackMDPlugin extends Plugin {
       }
     });
 
-    const updatedContent =
-      Object.keys(newFrontmatter).length > 0
-        ? this.combine(newFrontmatter, noteContent)
-        : noteContent;
-
-    editor.setValue(updatedContent);
+    return Object.keys(newFrontmatter).length > 0
+      ? this.combine(newFrontmatter, noteContent)
+      : noteContent;
   }
 
   private async cleanupHackMDMetadata(editor: Editor): Promise<void> {
@@ -531,9 +2660,15 @@ export default class HackMDPlugin extends Plugin {
       // Create a new frontmatter object without HackMD-specific fields
       const cleanedFrontmatter: NoteFrontmatter = { ...frontmatter };
       delete cleanedFrontmatter.url;
+      delete cleanedFrontmatter.provider;
+      delete cleanedFrontmatter[ACCOUNT_KEY];
       delete cleanedFrontmatter.lastSync;
       delete cleanedFrontmatter.teamPath;
       delete cleanedFrontmatter.title;
+      delete cleanedFrontmatter.localHash;
+      delete cleanedFrontmatter.remoteHash;
+      delete cleanedFrontmatter.publishLink;
+      delete cleanedFrontmatter.permalink;
 
       // Only keep frontmatter if there are remaining fields
       if (Object.keys(cleanedFrontmatter).length > 0) {
@@ -548,6 +2683,119 @@ export default class HackMDPlugin extends Plugin {
     }
   }
 
+  private getFrontmatterFilter(): FrontmatterFilter {
+    return {
+      mode: this.settings.frontmatterFilterMode,
+      keys: this.settings.frontmatterKeys,
+    };
+  }
+
+  /**
+   * Prepares content sent to the remote note: drops the sync metadata and the
+   * frontmatter keys kept local, and converts callouts and wikilinks
+   * @param sourcePath Path of the local note, wikilinks are resolved from it
+   */
+  private toRemoteContent(content: string, sourcePath: string): string {
+    const { frontmatter, content: body } = this.getFrontmatter(content);
+    const withContainers = this.getCalloutConverter().toRemote(body);
+    const remoteBody =
+      this.getLinkConverter(sourcePath)?.toRemote(withContainers) ??
+      withContainers;
+    if (!frontmatter) {
+      return remoteBody;
+    }
+    const pushed = filterFrontmatter(frontmatter, this.getFrontmatterFilter());
+    return Object.keys(pushed).length > 0
+      ? this.combine(pushed, remoteBody)
+      : remoteBody;
+  }
+
+  /**
+   * Gets the body of a remote note, with containers turned back into
+   * callouts and links to vault notes into wikilinks
+   * @param sourcePath Path of the local note
+   * @param localBody Current local body. Lines the remote still has as they
+   * were pushed from it, or from the last synced body, are kept as written
+   */
+  private getRemoteBody(
+    note: HackMDNote,
+    sourcePath: string,
+    localBody?: string
+  ): string {
+    const { content: body } = this.getFrontmatter(note.content || '');
+    const previous = [localBody, this.syncState.get(note.id)?.base].filter(
+      (text): text is string => text !== undefined
+    );
+    const callouts = this.getCalloutConverter();
+    // Links are converted back first, in the bodies as they were pushed
+    const links = this.getLinkConverter(sourcePath);
+    const linked = links
+      ? links.toLocal(
+          body,
+          previous.map(text => callouts.toRemote(text))
+        )
+      : body;
+    return callouts.toLocal(linked, previous);
+  }
+
+  private getCalloutConverter(): CalloutConverter {
+    return new CalloutConverter(this.settings.calloutMappings);
+  }
+
+  /**
+   * Gets the converter of the wikilinks of a note, unless conversion is off
+   * @param sourcePath Path of the local note, links are resolved from it
+   */
+  private getLinkConverter(sourcePath: string): LinkConverter | undefined {
+    const conversion = this.settings.wikilinkConversion;
+    if (conversion === 'off') {
+      return undefined;
+    }
+    const { metadataCache } = this.app;
+    return new LinkConverter(
+      {
+        getNoteUrl: linkpath => {
+          const file = metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+          if (!file) return undefined;
+          const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+          return this.getSyncMetadata(file, frontmatter ?? null).url;
+        },
+        getLinkText: url => {
+          const noteId = this.getNoteIdFromUrl(url);
+          const file = noteId ? this.findNoteWithHackMDId(noteId) : null;
+          return file
+            ? metadataCache.fileToLinktext(file, sourcePath, true)
+            : undefined;
+        },
+      },
+      conversion
+    );
+  }
+
+  /**
+   * Gives pulled content back the frontmatter keys that are never pushed
+   * @param remoteContent Content of the remote note, possibly merged
+   * @param localContent Current content of the local note
+   */
+  private withLocalFrontmatter(
+    remoteContent: string,
+    localContent: string
+  ): string {
+    const { frontmatter: remote, content: body } =
+      this.getFrontmatter(remoteContent);
+    const { frontmatter: local } = this.getFrontmatter(localContent);
+    const merged = mergePulledFrontmatter(
+      remote,
+      local,
+      this.getFrontmatterFilter()
+    );
+    return Object.keys(merged).length > 0 ? this.combine(merged, body) : body;
+  }
+
+  private replaceBody(content: string, body: string): string {
+    return content.slice(0, this.getFrontmatter(content).position) + body;
+  }
+
   private combine(frontmatter: NoteFrontmatter, content: string): string {
     return `---\n${this.obsidianService.stringifyYaml(frontmatter).trim()}\n---\n${content}`;
   }
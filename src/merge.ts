@@ -0,0 +1,386 @@
+/**
+ * Line-level diffing and three-way merging of note bodies.
+ *
+ * Kept free of any Obsidian dependency so it can be unit tested directly.
+ */
+
+// A region of the original text that the other side replaced
+export interface DiffHunk {
+  // Replaced range in the original lines, end exclusive
+  baseStart: number;
+  baseEnd: number;
+  // Matching range in the changed lines, end exclusive
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | {
+      type: 'conflict';
+      base: string[];
+      local: string[];
+      remote: string[];
+    };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+// A line of a unified diff, or a run of unchanged lines left out of it
+export type DiffLine =
+  | { type: 'same' | 'added' | 'removed'; text: string }
+  | { type: 'gap'; count: number };
+
+// How a single conflict is settled
+export type ConflictChoice = 'local' | 'remote' | 'both';
+
+export interface ConflictLabels {
+  local: string;
+  remote: string;
+}
+
+const DEFAULT_LABELS: ConflictLabels = {
+  local: 'Obsidian',
+  remote: 'HackMD',
+};
+
+export function splitLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+// Edit distance past which lines are no longer matched, bounding the trace
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Finds the longest common subsequence of two line arrays using Myers' diff
+ * @returns Pairs of matching indexes, in ascending order. None when the
+ * arrays differ by more than MAX_EDIT_DISTANCE lines, so they are treated as
+ * a single change
+ */
+function findMatches(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v: number[] = new Array(2 * max + 3).fill(0);
+  // Round d only reads diagonals -d..d of the previous one, so keep just those
+  const trace: number[][] = [];
+
+  let found = max === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return [];
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the snakes
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && state[k - 1 + d] < state[k + 1 + d])
+        ? k + 1
+        : k - 1;
+    const prevX = state[prevK + d];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      matches.push([x - 1, y - 1]);
+      x--;
+      y--;
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return matches.reverse();
+}
+
+/**
+ * Computes the hunks that turn `base` into `changed`
+ * @param base Original lines
+ * @param changed Modified lines
+ * @returns Hunks in ascending order, never touching each other
+ */
+export function diffLines(base: string[], changed: string[]): DiffHunk[] {
+  // Trimming the common prefix and suffix keeps the diff itself small
+  let prefix = 0;
+  while (
+    prefix < base.length &&
+    prefix < changed.length &&
+    base[prefix] === changed[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < changed.length - prefix &&
+    base[base.length - 1 - suffix] === changed[changed.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const baseMiddle = base.slice(prefix, base.length - suffix);
+  const changedMiddle = changed.slice(prefix, changed.length - suffix);
+  const matches = findMatches(baseMiddle, changedMiddle);
+  matches.push([baseMiddle.length, changedMiddle.length]);
+
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of matches) {
+    if (matchI > i || matchJ > j) {
+      hunks.push({
+        baseStart: prefix + i,
+        baseEnd: prefix + matchI,
+        start: prefix + j,
+        end: prefix + matchJ,
+        lines: changedMiddle.slice(j, matchJ),
+      });
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * Builds a unified diff of two texts, keeping a few unchanged lines around
+ * each change
+ * @param before Original text
+ * @param after Modified text
+ * @param context Unchanged lines kept before and after each change
+ * @returns The diff lines, empty when both texts are identical
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  context = 3
+): DiffLine[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const hunks = diffLines(beforeLines, afterLines);
+  const lines: DiffLine[] = [];
+
+  const pushSame = (
+    start: number,
+    end: number,
+    first: boolean,
+    last: boolean
+  ) => {
+    const count = end - start;
+    const head = first ? 0 : Math.min(context, count);
+    const tail = last ? 0 : Math.min(context, count - head);
+    beforeLines
+      .slice(start, start + head)
+      .forEach(text => lines.push({ type: 'same', text }));
+    if (count > head + tail) {
+      lines.push({ type: 'gap', count: count - head - tail });
+    }
+    beforeLines
+      .slice(end - tail, end)
+      .forEach(text => lines.push({ type: 'same', text }));
+  };
+
+  let position = 0;
+  hunks.forEach((hunk, index) => {
+    pushSame(position, hunk.baseStart, index === 0, false);
+    beforeLines
+      .slice(hunk.baseStart, hunk.baseEnd)
+      .forEach(text => lines.push({ type: 'removed', text }));
+    hunk.lines.forEach(text => lines.push({ type: 'added', text }));
+    position = hunk.baseEnd;
+  });
+  if (hunks.length > 0) {
+    pushSame(position, beforeLines.length, false, true);
+  }
+
+  return lines;
+}
+
+/**
+ * Applies one side's hunks to a range of the base
+ */
+function applyHunks(
+  base: string[],
+  hunks: DiffHunk[],
+  start: number,
+  end: number
+): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merges local and remote edits made to a common base, line by line
+ * @param base Content at the last sync
+ * @param local Current local content
+ * @param remote Current remote content
+ * @returns The merged chunks and the number of overlapping changes
+ */
+export function threeWayMerge(
+  base: string,
+  local: string,
+  remote: string
+): MergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...diffLines(baseLines, splitLines(local)).map(hunk => ({
+      hunk,
+      side: 'local' as const,
+    })),
+    ...diffLines(baseLines, splitLines(remote)).map(hunk => ({
+      hunk,
+      side: 'remote' as const,
+    })),
+  ].sort((a, b) => a.hunk.baseStart - b.hunk.baseStart);
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+  while (index < hunks.length) {
+    // Group every hunk that overlaps or touches the current region
+    const groupStart = hunks[index].hunk.baseStart;
+    let groupEnd = hunks[index].hunk.baseEnd;
+    const localHunks: DiffHunk[] = [];
+    const remoteHunks: DiffHunk[] = [];
+    while (index < hunks.length && hunks[index].hunk.baseStart <= groupEnd) {
+      const { hunk, side } = hunks[index];
+      (side === 'local' ? localHunks : remoteHunks).push(hunk);
+      groupEnd = Math.max(groupEnd, hunk.baseEnd);
+      index++;
+    }
+
+    pushStable(baseLines.slice(position, groupStart));
+    position = groupEnd;
+
+    const baseRegion = baseLines.slice(groupStart, groupEnd);
+    const localRegion = applyHunks(baseLines, localHunks, groupStart, groupEnd);
+    const remoteRegion = applyHunks(
+      baseLines,
+      remoteHunks,
+      groupStart,
+      groupEnd
+    );
+
+    if (sameLines(localRegion, remoteRegion)) {
+      pushStable(localRegion);
+    } else if (remoteHunks.length === 0) {
+      pushStable(localRegion);
+    } else if (localHunks.length === 0) {
+      pushStable(remoteRegion);
+    } else {
+      conflicts++;
+      chunks.push({
+        type: 'conflict',
+        base: baseRegion,
+        local: localRegion,
+        remote: remoteRegion,
+      });
+    }
+  }
+  pushStable(baseLines.slice(position));
+
+  return { chunks, conflicts };
+}
+
+/**
+ * Renders a merge result, writing standard conflict markers around overlaps
+ * @param result Result of threeWayMerge
+ * @param labels Names shown next to the conflict markers
+ * @returns The merged text
+ */
+export function renderMerge(
+  result: MergeResult,
+  labels: ConflictLabels = DEFAULT_LABELS
+): string {
+  const lines: string[] = [];
+  for (const chunk of result.chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+    } else {
+      lines.push(
+        `<<<<<<< ${labels.local}`,
+        ...chunk.local,
+        '=======',
+        ...chunk.remote,
+        `>>>>>>> ${labels.remote}`
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Settles every conflict of a merge result with the given choices
+ * @param result Result of threeWayMerge
+ * @param choices One choice per conflict, in order
+ * @returns The merged text, without conflict markers
+ */
+export function resolveConflicts(
+  result: MergeResult,
+  choices: ConflictChoice[]
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+  for (const chunk of result.chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const choice = choices[conflictIndex++] ?? 'both';
+    if (choice !== 'remote') lines.push(...chunk.local);
+    if (choice !== 'local') lines.push(...chunk.remote);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Checks whether a text still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^<{7} .*\n[\s\S]*?^={7}\n[\s\S]*?^>{7} /m.test(text);
+}
@@ -1,4 +1,55 @@
-import { App, Modal, TextComponent } from 'obsidian';
+import {
+  App,
+  FuzzyMatch,
+  FuzzySuggestModal,
+  Modal,
+  Setting,
+  TextComponent,
+} from 'obsidian';
+import {
+  ConflictChoice,
+  diffLines,
+  MergeChunk,
+  MergeResult,
+  resolveConflicts,
+  unifiedDiff,
+} from './merge';
+import { NotePublishType } from '@hackmd/api/dist/type';
+import {
+  BrowsableNote,
+  BulkSyncEntry,
+  BulkSyncStatus,
+  HackMDNoteSummary,
+  HackMDTeam,
+  ImportGrouping,
+  NotePermissions,
+  PROVIDER_NAMES,
+  SyncPreview,
+  WorkspaceImportOptions,
+} from './types';
+import { describeOperation, OfflineQueue } from './offline-queue';
+import {
+  COMMENT_OPTIONS,
+  PUBLISH_TYPE_OPTIONS,
+  ROLE_OPTIONS,
+} from './permissions';
+
+// Statuses shown in a bulk report, with their labels
+export type ReportLabels = Partial<Record<BulkSyncStatus, string>>;
+
+export const SYNC_REPORT_LABELS: ReportLabels = {
+  pushed: 'Pushed',
+  pulled: 'Pulled',
+  skipped: 'Already in sync',
+  conflicted: 'Conflicted',
+  failed: 'Failed',
+};
+
+export const IMPORT_REPORT_LABELS: ReportLabels = {
+  imported: 'Imported',
+  skipped: 'Already linked',
+  failed: 'Failed',
+};
 
 /**
  * Base interface for modal configurations
@@ -196,6 +247,634 @@ export class UrlPromptModal extends BaseModal {
   }
 }
 
+type ConflictChunk = Extract<MergeChunk, { type: 'conflict' }>;
+
+/**
+ * Modal for settling sync conflicts one hunk at a time
+ */
+export class ConflictResolutionModal extends BaseModal {
+  private result: MergeResult;
+  private onResolve: (body: string | null) => Promise<void>;
+  private choices: ConflictChoice[];
+  private mergedInput: HTMLTextAreaElement;
+  private resolved = false;
+
+  constructor(
+    app: App,
+    result: MergeResult,
+    onResolve: (body: string | null) => Promise<void>
+  ) {
+    super(app);
+    this.result = result;
+    this.onResolve = onResolve;
+    this.choices = new Array(result.conflicts).fill('both');
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('hackmd-conflict-modal');
+    contentEl.createEl('h3', { text: 'Resolve sync conflicts' });
+    contentEl.createEl('p', {
+      text:
+        `${this.result.conflicts} change(s) were made on both sides. ` +
+        'Choose which version to keep for each of them.',
+    });
+
+    const conflicts = this.result.chunks.filter(
+      (chunk): chunk is ConflictChunk => chunk.type === 'conflict'
+    );
+    conflicts.forEach((chunk, index) => this.renderConflict(chunk, index));
+
+    contentEl.createEl('h4', { text: 'Merged result' });
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'You can edit the result before applying it. Changing a choice above regenerates it.',
+    });
+    this.mergedInput = contentEl.createEl('textarea', {
+      cls: 'hackmd-merged-result',
+    });
+    this.updateMergedResult();
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Cancel', () => this.close());
+    this.createButton(buttonsContainer, 'Apply to both sides', async () => {
+      this.resolved = true;
+      await this.onResolve(this.mergedInput.value);
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.resolved) {
+      this.onResolve(null);
+    }
+  }
+
+  /**
+   * Renders both versions of a conflict next to each other with its choices
+   */
+  private renderConflict(chunk: ConflictChunk, index: number): void {
+    const section = this.contentEl.createDiv('hackmd-conflict-hunk');
+    section.createEl('h4', {
+      text: `Conflict ${index + 1} of ${this.result.conflicts}`,
+    });
+
+    const columns = section.createDiv('hackmd-conflict-columns');
+    this.renderSide(columns, 'Obsidian', chunk.base, chunk.local);
+    this.renderSide(columns, 'HackMD', chunk.base, chunk.remote);
+
+    const choiceContainer = section.createDiv('hackmd-conflict-choices');
+    const options: Array<{ value: ConflictChoice; label: string }> = [
+      { value: 'local', label: 'Keep Obsidian' },
+      { value: 'remote', label: 'Keep HackMD' },
+      { value: 'both', label: 'Keep both' },
+    ];
+    const buttons = options.map(({ value, label }) => {
+      const button = choiceContainer.createEl('button', { text: label });
+      button.toggleClass('mod-cta', this.choices[index] === value);
+      button.addEventListener('click', () => {
+        this.choices[index] = value;
+        buttons.forEach((other, i) =>
+          other.toggleClass('mod-cta', options[i].value === value)
+        );
+        this.updateMergedResult();
+      });
+      return button;
+    });
+  }
+
+  /**
+   * Renders one side of a conflict as a diff against the last synced content
+   */
+  private renderSide(
+    container: HTMLElement,
+    label: string,
+    base: string[],
+    lines: string[]
+  ): void {
+    const column = container.createDiv('hackmd-conflict-side');
+    column.createEl('strong', { text: label });
+    const pre = column.createEl('pre');
+
+    let position = 0;
+    for (const hunk of diffLines(base, lines)) {
+      lines
+        .slice(position, hunk.start)
+        .forEach(line => pre.createDiv({ text: line || ' ' }));
+      base
+        .slice(hunk.baseStart, hunk.baseEnd)
+        .forEach(line =>
+          pre.createDiv({ cls: 'hackmd-diff-removed', text: line || ' ' })
+        );
+      hunk.lines.forEach(line =>
+        pre.createDiv({ cls: 'hackmd-diff-added', text: line || ' ' })
+      );
+      position = hunk.end;
+    }
+    lines.slice(position).forEach(line => pre.createDiv({ text: line || ' ' }));
+  }
+
+  private updateMergedResult(): void {
+    this.mergedInput.value = resolveConflicts(this.result, this.choices);
+  }
+}
+
+/**
+ * Read-only modal showing what a Push or Pull would change before running it
+ */
+export class SyncPreviewModal extends BaseModal {
+  private preview: SyncPreview;
+  private onConfirm: () => Promise<void>;
+
+  constructor(app: App, preview: SyncPreview, onConfirm: () => Promise<void>) {
+    super(app);
+    this.preview = preview;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.addClass('hackmd-preview-modal');
+    contentEl.createEl('h3', { text: this.preview.title });
+
+    for (const warning of this.preview.warnings) {
+      contentEl.createEl('p', { cls: 'hackmd-preview-warning', text: warning });
+    }
+
+    for (const section of this.preview.sections) {
+      contentEl.createEl('h4', { text: section.label });
+      const diff = unifiedDiff(section.before, section.after);
+      if (diff.length === 0) {
+        contentEl.createEl('p', {
+          cls: 'setting-item-description',
+          text: 'No changes.',
+        });
+        continue;
+      }
+
+      const pre = contentEl.createEl('pre', { cls: 'hackmd-preview-diff' });
+      for (const line of diff) {
+        if (line.type === 'gap') {
+          pre.createDiv({
+            cls: 'hackmd-diff-gap',
+            text: `… ${line.count} unchanged line(s)`,
+          });
+        } else {
+          pre.createDiv({
+            cls: line.type === 'same' ? undefined : `hackmd-diff-${line.type}`,
+            text: line.text || ' ',
+          });
+        }
+      }
+    }
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Cancel', () => this.close());
+    this.createButton(buttonsContainer, this.preview.confirmText, async () => {
+      // The sync may open its own modals, e.g. to resolve conflicts
+      this.close();
+      await this.onConfirm();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Fuzzy search over the user's HackMD notes, importing the chosen ones.
+ * Shift+Enter or Shift+click selects several notes before importing them.
+ */
+export class NoteBrowserModal extends FuzzySuggestModal<BrowsableNote> {
+  private notes: BrowsableNote[];
+  private onImport: (notes: BrowsableNote[]) => Promise<void>;
+  private selected = new Set<BrowsableNote>();
+
+  constructor(
+    app: App,
+    notes: BrowsableNote[],
+    onImport: (notes: BrowsableNote[]) => Promise<void>
+  ) {
+    super(app);
+    this.notes = notes;
+    this.onImport = onImport;
+    this.setPlaceholder('Search your HackMD notes');
+    this.setInstructions([
+      { command: '↵', purpose: 'to import' },
+      { command: 'shift ↵', purpose: 'to select several notes' },
+      { command: 'esc', purpose: 'to dismiss' },
+    ]);
+    this.scope.register(['Shift'], 'Enter', event => {
+      this.selectActiveSuggestion(event);
+      return false;
+    });
+  }
+
+  getItems(): BrowsableNote[] {
+    return this.notes;
+  }
+
+  getItemText({ note }: BrowsableNote): string {
+    return [
+      note.title,
+      ...(note.tags ?? []),
+      note.teamPath ?? '',
+      note.account ?? '',
+    ].join(' ');
+  }
+
+  // Workspace of a note, with the account or service it was listed from
+  private describeWorkspace(note: HackMDNoteSummary): string {
+    if (note.provider) {
+      return PROVIDER_NAMES[note.provider];
+    }
+    const workspace = note.teamPath ? `Team ${note.teamPath}` : 'Personal';
+    return note.account ? `${note.account} · ${workspace}` : workspace;
+  }
+
+  renderSuggestion(match: FuzzyMatch<BrowsableNote>, el: HTMLElement): void {
+    const { note, linkedPath } = match.item;
+    const selected = this.selected.has(match.item);
+    el.addClass('hackmd-note-suggestion');
+    el.createDiv({
+      text: `${selected ? '✓ ' : ''}${note.title || 'Untitled'}`,
+    });
+
+    const details = [
+      this.describeWorkspace(note),
+      `changed ${new Date(note.lastChangedAt || note.createdAt).toLocaleString()}`,
+    ];
+    if (note.tags?.length) {
+      details.push(note.tags.map(tag => `#${tag}`).join(' '));
+    }
+    el.createEl('small', { text: details.join(' · ') });
+
+    if (linkedPath) {
+      el.createEl('small', {
+        cls: 'hackmd-note-suggestion-linked',
+        text: `Linked to ${linkedPath}`,
+      });
+    }
+  }
+
+  selectSuggestion(
+    match: FuzzyMatch<BrowsableNote>,
+    event: MouseEvent | KeyboardEvent
+  ): void {
+    if (event.shiftKey) {
+      if (!this.selected.delete(match.item)) {
+        this.selected.add(match.item);
+      }
+      // Renders the suggestions again to show the selection
+      this.inputEl.dispatchEvent(new Event('input'));
+      return;
+    }
+    super.selectSuggestion(match, event);
+  }
+
+  onChooseItem(item: BrowsableNote): void {
+    this.selected.add(item);
+    this.onImport([...this.selected]);
+  }
+}
+
+/**
+ * Modal showing the progress of a vault-wide sync, then its report
+ */
+export class SyncProgressModal extends BaseModal {
+  private title: string;
+  private onCancel?: () => void;
+  private progressEl: HTMLProgressElement;
+  private statusEl: HTMLElement;
+  private cancelContainer?: HTMLElement;
+
+  constructor(app: App, title: string, onCancel?: () => void) {
+    super(app);
+    this.title = title;
+    this.onCancel = onCancel;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: this.title });
+    this.progressEl = contentEl.createEl('progress');
+    this.progressEl.addClass('hackmd-sync-progress');
+    this.statusEl = contentEl.createEl('p', { text: 'Preparing...' });
+
+    const onCancel = this.onCancel;
+    if (onCancel) {
+      this.cancelContainer = contentEl.createDiv('modal-button-container');
+      this.createButton(this.cancelContainer, 'Cancel', () => {
+        onCancel();
+        this.statusEl.setText('Cancelling...');
+      });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Updates the progress bar with the note currently being processed
+   */
+  setProgress(done: number, total: number, current: string): void {
+    this.progressEl.max = Math.max(total, 1);
+    this.progressEl.value = done;
+    this.statusEl.setText(`${done}/${total} - ${current}`);
+  }
+
+  /**
+   * Replaces the progress bar with a summary of every processed note
+   */
+  showReport(
+    entries: BulkSyncEntry[],
+    labels: ReportLabels = SYNC_REPORT_LABELS,
+    cancelled = false
+  ): void {
+    this.progressEl.remove();
+    this.cancelContainer?.remove();
+    this.statusEl.setText(
+      cancelled
+        ? `Cancelled after ${entries.length} note(s).`
+        : `Processed ${entries.length} note(s).`
+    );
+
+    const summary = this.contentEl.createEl('ul');
+    for (const status of Object.keys(labels) as BulkSyncStatus[]) {
+      const count = entries.filter(entry => entry.status === status).length;
+      summary.createEl('li', { text: `${labels[status]}: ${count}` });
+    }
+
+    const problems = entries.filter(entry => entry.reason);
+    if (problems.length > 0) {
+      this.contentEl.createEl('h4', { text: 'Needs attention' });
+      const list = this.contentEl.createEl('ul', {
+        cls: 'hackmd-sync-report',
+      });
+      for (const entry of problems) {
+        const item = list.createEl('li');
+        item.createEl('strong', { text: entry.path });
+        item.appendText(` - ${entry.reason}`);
+      }
+    }
+
+    const buttonsContainer = this.contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Close', () => this.close());
+  }
+}
+
+/**
+ * Modal choosing which HackMD workspace to import, and where
+ */
+export class WorkspaceImportModal extends BaseModal {
+  private teams: HackMDTeam[];
+  private onSubmit: (options: WorkspaceImportOptions) => Promise<void>;
+  private options: WorkspaceImportOptions = {
+    source: { type: 'personal' },
+    folder: 'HackMD',
+    grouping: 'none',
+  };
+
+  constructor(
+    app: App,
+    teams: HackMDTeam[],
+    onSubmit: (options: WorkspaceImportOptions) => Promise<void>
+  ) {
+    super(app);
+    this.teams = teams;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Import HackMD workspace' });
+    contentEl.createEl('p', {
+      text: 'Every note of the workspace is imported and stays linked for later pulls. Notes already linked in the vault are skipped.',
+    });
+
+    new Setting(contentEl).setName('Workspace').addDropdown(dropdown => {
+      dropdown.addOption('personal', 'My notes');
+      this.teams.forEach((team, index) =>
+        dropdown.addOption(String(index), `Team: ${team.name}`)
+      );
+      dropdown.addOption('all', 'All workspaces');
+      dropdown.onChange(value => {
+        this.options.source =
+          value === 'personal' || value === 'all'
+            ? { type: value }
+            : { type: 'team', teamPath: this.teams[Number(value)].path };
+      });
+    });
+
+    new Setting(contentEl)
+      .setName('Target folder')
+      .setDesc('Vault folder receiving the notes, created when missing')
+      .addText(text =>
+        text.setValue(this.options.folder).onChange(value => {
+          this.options.folder = value.trim();
+        })
+      );
+
+    new Setting(contentEl).setName('Subfolders').addDropdown(dropdown =>
+      dropdown
+        .addOption('none', 'None')
+        .addOption('tag', 'By first tag')
+        .addOption('team', 'By team')
+        .setValue(this.options.grouping)
+        .onChange(value => {
+          this.options.grouping = value as ImportGrouping;
+        })
+    );
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Cancel', () => this.close());
+    this.createButton(buttonsContainer, 'Import', async () => {
+      this.close();
+      await this.onSubmit(this.options);
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Modal editing the permissions of a linked note
+ */
+export class PermissionsModal extends BaseModal {
+  private permissions: NotePermissions;
+  private onSubmit: (permissions: NotePermissions) => Promise<void>;
+
+  constructor(
+    app: App,
+    current: NotePermissions,
+    onSubmit: (permissions: NotePermissions) => Promise<void>
+  ) {
+    super(app);
+    this.permissions = { ...current };
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Change permissions' });
+
+    const fields = [
+      { key: 'readPermission', name: 'Read', options: ROLE_OPTIONS },
+      { key: 'writePermission', name: 'Write', options: ROLE_OPTIONS },
+      { key: 'commentPermission', name: 'Comment', options: COMMENT_OPTIONS },
+    ] as const;
+    for (const { key, name, options } of fields) {
+      new Setting(contentEl).setName(name).addDropdown(dropdown => {
+        options.forEach(({ value, label }) => dropdown.addOption(value, label));
+        const current = this.permissions[key];
+        if (current) {
+          dropdown.setValue(current);
+        }
+        dropdown.onChange(value => {
+          this.permissions = { ...this.permissions, [key]: value };
+        });
+      });
+    }
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Cancel', () => this.close());
+    this.createButton(buttonsContainer, 'Save', async () => {
+      try {
+        await this.onSubmit(this.permissions);
+        this.close();
+      } catch (error) {
+        console.error('Failed to change permissions:', error);
+        const errorDiv = this.contentEl.createDiv('modal-error');
+        errorDiv.setText(error.message);
+      }
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Modal choosing how a linked note is published
+ */
+export class PublishTypeModal extends BaseModal {
+  private publishType: NotePublishType;
+  private onSubmit: (publishType: NotePublishType) => Promise<void>;
+
+  constructor(
+    app: App,
+    current: NotePublishType | undefined,
+    onSubmit: (publishType: NotePublishType) => Promise<void>
+  ) {
+    super(app);
+    this.publishType = current ?? NotePublishType.VIEW;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Set publish type' });
+
+    new Setting(contentEl)
+      .setName('Publish as')
+      .setDesc('How readers see the published note')
+      .addDropdown(dropdown => {
+        PUBLISH_TYPE_OPTIONS.forEach(({ value, label }) =>
+          dropdown.addOption(value, label)
+        );
+        dropdown.setValue(this.publishType);
+        dropdown.onChange(value => {
+          this.publishType = value as NotePublishType;
+        });
+      });
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    this.createButton(buttonsContainer, 'Cancel', () => this.close());
+    this.createButton(buttonsContainer, 'Publish', async () => {
+      try {
+        await this.onSubmit(this.publishType);
+        this.close();
+      } catch (error) {
+        console.error('Failed to set publish type:', error);
+        const errorDiv = this.contentEl.createDiv('modal-error');
+        errorDiv.setText(error.message);
+      }
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Modal listing the operations waiting for HackMD to be reachable again
+ */
+export class OfflineQueueModal extends BaseModal {
+  private queue: OfflineQueue;
+
+  constructor(app: App, queue: OfflineQueue) {
+    super(app);
+    this.queue = queue;
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Offline queue' });
+
+    const operations = this.queue.getOperations();
+    if (operations.length === 0) {
+      contentEl.createEl('p', { text: 'No pending operations.' });
+    } else {
+      contentEl.createEl('p', {
+        text: 'These operations will be sent to HackMD, in this order, once it can be reached again.',
+      });
+      const list = contentEl.createDiv('hackmd-offline-queue');
+      for (const operation of operations) {
+        const row = list.createDiv('hackmd-offline-operation');
+        const details = row.createDiv();
+        details.createDiv({ text: describeOperation(operation) });
+        details.createDiv({
+          cls: 'setting-item-description',
+          text:
+            `Queued ${new Date(operation.queuedAt).toLocaleString()}` +
+            (operation.attempts > 0
+              ? `, ${operation.attempts} failed attempt(s)`
+              : ''),
+        });
+        this.createButton(row, 'Cancel', async () => {
+          await this.queue.cancel(operation.id);
+          this.render();
+        });
+      }
+    }
+
+    const buttonsContainer = contentEl.createDiv('modal-button-container');
+    if (operations.length > 0) {
+      this.createButton(buttonsContainer, 'Retry now', async () => {
+        await this.queue.replay();
+        this.render();
+      });
+    }
+    this.createButton(buttonsContainer, 'Close', () => this.close());
+  }
+}
+
 /**
  * Factory for creating common modal types
  */
@@ -232,6 +911,90 @@ export const ModalFactory = {
     return new DeleteConfirmModal(app, noteTitle, onConfirm);
   },
 
+  /**
+   * Creates a conflict resolution modal
+   */
+  createConflictModal(
+    app: App,
+    result: MergeResult,
+    onResolve: (body: string | null) => Promise<void>
+  ): ConflictResolutionModal {
+    return new ConflictResolutionModal(app, result, onResolve);
+  },
+
+  /**
+   * Creates a read-only preview of a Push or Pull
+   */
+  createSyncPreviewModal(
+    app: App,
+    preview: SyncPreview,
+    onConfirm: () => Promise<void>
+  ): SyncPreviewModal {
+    return new SyncPreviewModal(app, preview, onConfirm);
+  },
+
+  /**
+   * Creates a modal to browse and import HackMD notes
+   */
+  createNoteBrowserModal(
+    app: App,
+    notes: BrowsableNote[],
+    onImport: (notes: BrowsableNote[]) => Promise<void>
+  ): NoteBrowserModal {
+    return new NoteBrowserModal(app, notes, onImport);
+  },
+
+  /**
+   * Creates a modal choosing the workspace to import
+   */
+  createWorkspaceImportModal(
+    app: App,
+    teams: HackMDTeam[],
+    onSubmit: (options: WorkspaceImportOptions) => Promise<void>
+  ): WorkspaceImportModal {
+    return new WorkspaceImportModal(app, teams, onSubmit);
+  },
+
+  /**
+   * Creates a modal editing the permissions of a note
+   */
+  createPermissionsModal(
+    app: App,
+    current: NotePermissions,
+    onSubmit: (permissions: NotePermissions) => Promise<void>
+  ): PermissionsModal {
+    return new PermissionsModal(app, current, onSubmit);
+  },
+
+  /**
+   * Creates a modal choosing how a note is published
+   */
+  createPublishTypeModal(
+    app: App,
+    current: NotePublishType | undefined,
+    onSubmit: (publishType: NotePublishType) => Promise<void>
+  ): PublishTypeModal {
+    return new PublishTypeModal(app, current, onSubmit);
+  },
+
+  /**
+   * Creates a vault-wide sync progress modal
+   */
+  createSyncProgressModal(
+    app: App,
+    title: string,
+    onCancel?: () => void
+  ): SyncProgressModal {
+    return new SyncProgressModal(app, title, onCancel);
+  },
+
+  /**
+   * Creates a modal listing the offline queue
+   */
+  createOfflineQueueModal(app: App, queue: OfflineQueue): OfflineQueueModal {
+    return new OfflineQueueModal(app, queue);
+  },
+
   /**
    * Creates a URL prompt modal
    */
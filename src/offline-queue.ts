@@ -0,0 +1,168 @@
+import {
+  CONSTANTS,
+  HackMDError,
+  HackMDErrorType,
+  PendingOperation,
+  QueuedOperation,
+} from './types';
+
+/**
+ * Persistent queue of mutations that failed because HackMD was unreachable.
+ * Operations are replayed in order once HackMD answers again, retrying with
+ * a growing delay in between.
+ */
+export class OfflineQueue {
+  private operations: QueuedOperation[];
+  private save: (operations: QueuedOperation[]) => Promise<void>;
+  private isOnline: (operation: QueuedOperation) => Promise<boolean>;
+  private run: (operation: QueuedOperation) => Promise<void>;
+  private onDropped: (operation: QueuedOperation, error: Error) => void;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delay: number = CONSTANTS.OFFLINE_RETRY_DELAY;
+  private replaying = false;
+
+  /**
+   * @param operations Operations restored from plugin data
+   * @param save Persists the queue after every change
+   * @param isOnline Checks whether the server of an operation can be reached
+   * @param run Sends one operation to HackMD
+   * @param onDropped Reports an operation that failed for another reason
+   */
+  constructor(
+    operations: QueuedOperation[],
+    save: (operations: QueuedOperation[]) => Promise<void>,
+    isOnline: (operation: QueuedOperation) => Promise<boolean>,
+    run: (operation: QueuedOperation) => Promise<void>,
+    onDropped: (operation: QueuedOperation, error: Error) => void
+  ) {
+    this.operations = [...operations];
+    this.save = save;
+    this.isOnline = isOnline;
+    this.run = run;
+    this.onDropped = onDropped;
+  }
+
+  getOperations(): readonly QueuedOperation[] {
+    return this.operations;
+  }
+
+  /**
+   * Adds an operation and schedules a replay
+   */
+  async enqueue(operation: PendingOperation): Promise<void> {
+    // Pushes send the note as it is when replayed, so one is enough
+    const duplicate = this.operations.some(
+      queued =>
+        operation.type === 'push' &&
+        queued.type === 'push' &&
+        queued.path === operation.path
+    );
+    if (!duplicate) {
+      this.operations.push({
+        ...operation,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        queuedAt: new Date().toISOString(),
+        attempts: 0,
+      });
+      await this.save(this.operations);
+    }
+    this.scheduleReplay();
+  }
+
+  async cancel(id: string): Promise<void> {
+    this.operations = this.operations.filter(operation => operation.id !== id);
+    await this.save(this.operations);
+  }
+
+  /**
+   * Keeps queued operations attached to a renamed note
+   */
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    let changed = false;
+    for (const operation of this.operations) {
+      if (operation.path === oldPath) {
+        operation.path = newPath;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.save(this.operations);
+    }
+  }
+
+  /**
+   * Sends every queued operation in order, stopping at the first one whose
+   * server can't be reached
+   */
+  async replay(): Promise<void> {
+    if (this.replaying || this.operations.length === 0) return;
+
+    this.replaying = true;
+    this.clearTimer();
+    try {
+      while (this.operations.length > 0) {
+        const operation = this.operations[0];
+        if (!(await this.isOnline(operation))) {
+          this.scheduleRetry();
+          return;
+        }
+        try {
+          await this.run(operation);
+        } catch (error) {
+          if (
+            error instanceof HackMDError &&
+            (error.type === HackMDErrorType.CONNECTION_FAILED ||
+              error.type === HackMDErrorType.REQUEST_TIMEOUT)
+          ) {
+            operation.attempts++;
+            await this.save(this.operations);
+            this.scheduleRetry();
+            return;
+          }
+          this.onDropped(operation, error);
+        }
+        await this.cancel(operation.id);
+      }
+      this.delay = CONSTANTS.OFFLINE_RETRY_DELAY;
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  stop(): void {
+    this.clearTimer();
+  }
+
+  private scheduleReplay(): void {
+    if (this.timer === null && !this.replaying) {
+      this.timer = setTimeout(() => this.replay(), this.delay);
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => this.replay(), this.delay);
+    this.delay = Math.min(this.delay * 2, CONSTANTS.MAX_OFFLINE_RETRY_DELAY);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Describes a queued operation for the user
+ */
+export function describeOperation(operation: PendingOperation): string {
+  switch (operation.type) {
+    case 'push':
+      return `Push "${operation.path}"`;
+    case 'delete':
+      return `Delete the HackMD note of "${operation.path}"`;
+    case 'update':
+      return `Update the HackMD settings of "${operation.path}"`;
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  CommentPermissionType,
+  NotePermissionRole,
+  NotePublishType,
+} from '@hackmd/api/dist/type';
+import {
+  HackMDError,
+  HackMDErrorType,
+  NoteFrontmatter,
+  NoteOptions,
+  NotePermissions,
+} from './types';
+
+// Frontmatter keys declaring the permissions enforced on every push
+export const PERMISSION_KEYS = {
+  readPermission: 'hackmd-read',
+  writePermission: 'hackmd-write',
+  commentPermission: 'hackmd-comment',
+} as const satisfies Record<keyof NotePermissions, string>;
+
+export const ROLE_OPTIONS: Array<{ value: NotePermissionRole; label: string }> =
+  [
+    { value: NotePermissionRole.OWNER, label: 'Owner' },
+    { value: NotePermissionRole.SIGNED_IN, label: 'Signed In Users' },
+    { value: NotePermissionRole.GUEST, label: 'Everyone' },
+  ];
+
+export const COMMENT_OPTIONS: Array<{
+  value: CommentPermissionType;
+  label: string;
+}> = [
+  { value: CommentPermissionType.DISABLED, label: 'Disabled' },
+  { value: CommentPermissionType.FORBIDDEN, label: 'Forbidden' },
+  { value: CommentPermissionType.OWNERS, label: 'Owner' },
+  { value: CommentPermissionType.SIGNED_IN_USERS, label: 'Signed In Users' },
+  { value: CommentPermissionType.EVERYONE, label: 'Everyone' },
+];
+
+// Frontmatter key declaring how the note is published
+export const PUBLISH_TYPE_KEY = 'hackmd-publish';
+
+export const PUBLISH_TYPE_OPTIONS: Array<{
+  value: NotePublishType;
+  label: string;
+}> = [
+  { value: NotePublishType.EDIT, label: 'Edit' },
+  { value: NotePublishType.VIEW, label: 'View' },
+  { value: NotePublishType.SLIDE, label: 'Slide' },
+  { value: NotePublishType.BOOK, label: 'Book' },
+];
+
+function readValue<T extends string>(
+  frontmatter: NoteFrontmatter,
+  key: string,
+  allowed: Array<{ value: T }>,
+  errorType = HackMDErrorType.INVALID_PERMISSION
+): T | undefined {
+  const value = frontmatter[key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const match = allowed.find(option => option.value === value);
+  if (!match) {
+    throw new HackMDError(
+      errorType,
+      `Invalid value "${value}" for ${key}. Expected one of: ${allowed
+        .map(option => option.value)
+        .join(', ')}.`
+    );
+  }
+  return match.value;
+}
+
+/**
+ * Reads the permissions a note declares in its frontmatter
+ * @param frontmatter Parsed frontmatter of the note
+ * @returns Only the declared permissions
+ * @throws HackMDError when a key holds an unknown permission
+ */
+export function getFrontmatterPermissions(
+  frontmatter: NoteFrontmatter | null
+): NotePermissions {
+  const permissions: NotePermissions = {};
+  if (!frontmatter) {
+    return permissions;
+  }
+
+  const read = readValue(
+    frontmatter,
+    PERMISSION_KEYS.readPermission,
+    ROLE_OPTIONS
+  );
+  const write = readValue(
+    frontmatter,
+    PERMISSION_KEYS.writePermission,
+    ROLE_OPTIONS
+  );
+  const comment = readValue(
+    frontmatter,
+    PERMISSION_KEYS.commentPermission,
+    COMMENT_OPTIONS
+  );
+  if (read) permissions.readPermission = read;
+  if (write) permissions.writePermission = write;
+  if (comment) permissions.commentPermission = comment;
+  return permissions;
+}
+
+/**
+ * Reads every sharing option a note declares in its frontmatter, enforced
+ * on every push
+ * @param frontmatter Parsed frontmatter of the note
+ * @throws HackMDError when a key holds an unknown value
+ */
+export function getFrontmatterNoteOptions(
+  frontmatter: NoteFrontmatter | null
+): NoteOptions {
+  const options: NoteOptions = getFrontmatterPermissions(frontmatter);
+  const publishType =
+    frontmatter &&
+    readValue(
+      frontmatter,
+      PUBLISH_TYPE_KEY,
+      PUBLISH_TYPE_OPTIONS,
+      HackMDErrorType.INVALID_PUBLISH_TYPE
+    );
+  if (publishType) options.publishType = publishType;
+  return options;
+}
@@ -1,24 +1,105 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, DropdownComponent, PluginSettingTab, Setting } from 'obsidian';
 import {
   NotePermissionRole,
   CommentPermissionType,
 } from '@hackmd/api/dist/type';
 import type HackMDPlugin from './main';
-import { HackMDClient } from './client';
+import { DEFAULT_API_URL, DEFAULT_WEB_URL, HackMDClient } from './client';
+import { HedgeDocClient } from './hedgedoc-client';
+import { PROVIDER_NAMES, ProviderId } from './types';
+import { COMMENT_OPTIONS, ROLE_OPTIONS } from './permissions';
+import { WikilinkFallback } from './wikilinks';
+import { CalloutMapping, DEFAULT_CALLOUT_MAPPINGS } from './callouts';
+
+// How overlapping local and remote changes are settled
+export type ConflictResolutionMode = 'modal' | 'markers';
+
+// Whether the frontmatter keys listed in the settings are pushed or kept local
+export type FrontmatterFilterMode = 'exclude' | 'include';
+
+// How wikilinks are converted on push, 'off' pushing them as written
+export type WikilinkConversion = WikilinkFallback | 'off';
+
+// Vault folder whose new notes are created in a HackMD team workspace
+export interface TeamFolderMapping {
+  folder: string;
+  teamPath: string;
+  readPermission: NotePermissionRole;
+  writePermission: NotePermissionRole;
+  commentPermission: CommentPermissionType;
+}
+
+// HackMD account used next to the main one, e.g. a work account
+export interface HackMDAccount {
+  name: string;
+  accessToken: string;
+  // Servers of the account, hackmd.io when empty
+  apiUrl: string;
+  webUrl: string;
+  // Permissions of the notes created with the account
+  readPermission: NotePermissionRole;
+  writePermission: NotePermissionRole;
+  commentPermission: CommentPermissionType;
+}
+
+// Vault folder whose new notes are created with a named account
+export interface AccountFolderMapping {
+  folder: string;
+  account: string;
+}
 
 // Plugin settings configuration
 export interface HackMDPluginSettings {
   accessToken: string;
+  // Servers of a self-hosted or enterprise HackMD
+  apiUrl: string;
+  webUrl: string;
+  // HedgeDoc server notes can be synced with instead of HackMD
+  hedgedocUrl: string;
+  hedgedocToken: string;
+  // Service new notes are created on, unless their frontmatter says otherwise
+  defaultProvider: ProviderId;
   defaultReadPermission: NotePermissionRole;
   defaultWritePermission: NotePermissionRole;
   defaultCommentPermission: CommentPermissionType;
+  conflictResolution: ConflictResolutionMode;
+  frontmatterFilterMode: FrontmatterFilterMode;
+  frontmatterKeys: string[];
+  wikilinkConversion: WikilinkConversion;
+  // Containers callouts are pushed as, the first one of a container winning
+  // on pull
+  calloutMappings: CalloutMapping[];
+  autoPushFolders: string[];
+  // Quiet period before an auto-push, in seconds
+  autoPushDelay: number;
+  // Interval between checks for remote changes, in minutes (0 disables them)
+  pollInterval: number;
+  teamFolders: TeamFolderMapping[];
+  accounts: HackMDAccount[];
+  accountFolders: AccountFolderMapping[];
 }
 
 export const DEFAULT_SETTINGS: HackMDPluginSettings = {
   accessToken: '',
+  apiUrl: DEFAULT_API_URL,
+  webUrl: DEFAULT_WEB_URL,
+  hedgedocUrl: '',
+  hedgedocToken: '',
+  defaultProvider: 'hackmd',
   defaultReadPermission: NotePermissionRole.OWNER,
   defaultWritePermission: NotePermissionRole.OWNER,
   defaultCommentPermission: CommentPermissionType.DISABLED,
+  conflictResolution: 'modal',
+  frontmatterFilterMode: 'exclude',
+  frontmatterKeys: [],
+  wikilinkConversion: 'text',
+  calloutMappings: DEFAULT_CALLOUT_MAPPINGS,
+  autoPushFolders: [],
+  autoPushDelay: 10,
+  pollInterval: 5,
+  teamFolders: [],
+  accounts: [],
+  accountFolders: [],
 };
 
 export class HackMDSettingTab extends PluginSettingTab {
@@ -34,7 +115,18 @@ export class HackMDSettingTab extends PluginSettingTab {
     containerEl.empty();
 
     this.renderAccessTokenSetting();
+    this.renderServerSettings();
     this.renderPermissionSettings();
+    this.renderConflictResolutionSetting();
+    this.renderFrontmatterFilterSettings();
+    this.renderWikilinkSetting();
+    this.renderCalloutSetting();
+    this.renderAutoPushSettings();
+    this.renderPollIntervalSetting();
+    this.renderTeamFolderSettings();
+    this.renderAccountSettings();
+    this.renderAccountFolderSettings();
+    this.renderHedgeDocSettings();
   }
 
   private renderAccessTokenSetting(): void {
@@ -49,12 +141,45 @@ export class HackMDSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.accessToken || '')
           .onChange(async value => {
             this.plugin.settings.accessToken = value;
-            await this.plugin.saveData(this.plugin.settings);
+            await this.plugin.saveSettings();
             HackMDClient.resetInstance();
           })
       );
   }
 
+  private renderServerSettings(): void {
+    new Setting(this.containerEl)
+      .setName('API URL')
+      .setDesc(
+        'Base URL of the HackMD API. Change it for a self-hosted or enterprise HackMD.'
+      )
+      .addText(text =>
+        text
+          .setPlaceholder(DEFAULT_API_URL)
+          .setValue(this.plugin.settings.apiUrl)
+          .onChange(async value => {
+            this.plugin.settings.apiUrl = value.trim() || DEFAULT_API_URL;
+            await this.plugin.saveSettings();
+            HackMDClient.resetInstance();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName('Web URL')
+      .setDesc(
+        'Address notes are opened at, used to build and recognize note URLs'
+      )
+      .addText(text =>
+        text
+          .setPlaceholder(DEFAULT_WEB_URL)
+          .setValue(this.plugin.settings.webUrl)
+          .onChange(async value => {
+            this.plugin.settings.webUrl = value.trim() || DEFAULT_WEB_URL;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
   private renderPermissionSettings(): void {
     this.renderReadPermissionSetting();
     this.renderWritePermissionSetting();
@@ -66,17 +191,13 @@ export class HackMDSettingTab extends PluginSettingTab {
       .setName('Read permission')
       .setDesc('Read permission for new notes')
       .addDropdown(dropdown =>
-        this.configurePermissionDropdown(
+        this.configureDropdown(
           dropdown,
-          [
-            { value: NotePermissionRole.OWNER, label: 'Owner' },
-            { value: NotePermissionRole.SIGNED_IN, label: 'Signed In Users' },
-            { value: NotePermissionRole.GUEST, label: 'Everyone' },
-          ],
+          ROLE_OPTIONS,
           this.plugin.settings.defaultReadPermission,
           async (value: NotePermissionRole) => {
             this.plugin.settings.defaultReadPermission = value;
-            await this.plugin.saveData(this.plugin.settings);
+            await this.plugin.saveSettings();
           }
         )
       );
@@ -87,17 +208,13 @@ export class HackMDSettingTab extends PluginSettingTab {
       .setName('Write permission')
       .setDesc('write permission for new notes')
       .addDropdown(dropdown =>
-        this.configurePermissionDropdown(
+        this.configureDropdown(
           dropdown,
-          [
-            { value: NotePermissionRole.OWNER, label: 'Owner' },
-            { value: NotePermissionRole.SIGNED_IN, label: 'Signed In Users' },
-            { value: NotePermissionRole.GUEST, label: 'Everyone' },
-          ],
+          ROLE_OPTIONS,
           this.plugin.settings.defaultWritePermission,
           async (value: NotePermissionRole) => {
             this.plugin.settings.defaultWritePermission = value;
-            await this.plugin.saveData(this.plugin.settings);
+            await this.plugin.saveSettings();
           }
         )
       );
@@ -108,38 +225,544 @@ export class HackMDSettingTab extends PluginSettingTab {
       .setName('Comment permission')
       .setDesc('comment permission for new notes')
       .addDropdown(dropdown =>
-        this.configurePermissionDropdown(
+        this.configureDropdown(
+          dropdown,
+          COMMENT_OPTIONS,
+          this.plugin.settings.defaultCommentPermission,
+          async (value: CommentPermissionType) => {
+            this.plugin.settings.defaultCommentPermission = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      );
+  }
+
+  private renderConflictResolutionSetting(): void {
+    new Setting(this.containerEl)
+      .setName('Conflict resolution')
+      .setDesc('How to settle changes made to the same lines on both sides')
+      .addDropdown(dropdown =>
+        this.configureDropdown(
           dropdown,
           [
-            { value: CommentPermissionType.DISABLED, label: 'Disabled' },
-            { value: CommentPermissionType.FORBIDDEN, label: 'Forbidden' },
-            { value: CommentPermissionType.OWNERS, label: 'Owner' },
+            { value: 'modal', label: 'Choose in a dialog' },
+            { value: 'markers', label: 'Write conflict markers' },
+          ],
+          this.plugin.settings.conflictResolution,
+          async (value: ConflictResolutionMode) => {
+            this.plugin.settings.conflictResolution = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      );
+  }
+
+  private renderFrontmatterFilterSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Pushed frontmatter')
+      .setDesc(
+        'Which frontmatter keys are pushed with the note. Sync metadata is never pushed, and keys kept local are restored on pull.'
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          [
+            { value: 'exclude', label: 'All keys except those listed' },
+            { value: 'include', label: 'Only the keys listed' },
+          ],
+          this.plugin.settings.frontmatterFilterMode,
+          async (value: FrontmatterFilterMode) => {
+            this.plugin.settings.frontmatterFilterMode = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      );
+
+    new Setting(this.containerEl)
+      .setName('Frontmatter keys')
+      .setDesc('Keys the setting above applies to. One key per line.')
+      .addTextArea(text =>
+        text
+          .setPlaceholder('aliases\ncssclasses')
+          .setValue(this.plugin.settings.frontmatterKeys.join('\n'))
+          .onChange(async value => {
+            this.plugin.settings.frontmatterKeys = value
+              .split('\n')
+              .map(key => key.trim())
+              .filter(key => key !== '');
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private renderWikilinkSetting(): void {
+    new Setting(this.containerEl)
+      .setName('Wikilinks')
+      .setDesc(
+        'How wikilinks are pushed. Links to linked notes point to their remote copy, and turn back into wikilinks on pull.'
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          [
+            { value: 'text', label: 'Link linked notes, others as text' },
+            { value: 'keep', label: 'Link linked notes, keep the others' },
+            { value: 'off', label: 'Push as written' },
+          ],
+          this.plugin.settings.wikilinkConversion,
+          async (value: WikilinkConversion) => {
+            this.plugin.settings.wikilinkConversion = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      );
+  }
+
+  private renderCalloutSetting(): void {
+    new Setting(this.containerEl)
+      .setName('Callout types')
+      .setDesc(
+        'HackMD container each Obsidian callout type is pushed as, one `callout: container` per line, e.g. `tip: success`. Callouts of other types are pushed as written. On pull, a container becomes the first callout type mapped to it.'
+      )
+      .addTextArea(text =>
+        text
+          .setPlaceholder('note: info')
+          .setValue(
+            this.plugin.settings.calloutMappings
+              .map(({ callout, container }) => `${callout}: ${container}`)
+              .join('\n')
+          )
+          .onChange(async value => {
+            this.plugin.settings.calloutMappings = value
+              .split('\n')
+              .map(line => line.split(':').map(part => part.trim()))
+              .filter(
+                ([callout, container, ...rest]) =>
+                  callout && container && rest.length === 0
+              )
+              .map(([callout, container]) => ({
+                callout: callout.toLowerCase(),
+                container,
+              }));
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private renderAutoPushSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Auto-push folders')
+      .setDesc(
+        'Notes in these folders are pushed automatically after you stop editing them. One folder per line. A note can also opt in or out with `autoPush: true` or `autoPush: false` in its frontmatter.'
+      )
+      .addTextArea(text =>
+        text
+          .setPlaceholder('Meetings')
+          .setValue(this.plugin.settings.autoPushFolders.join('\n'))
+          .onChange(async value => {
+            this.plugin.settings.autoPushFolders = value
+              .split('\n')
+              .map(folder => folder.trim())
+              .filter(folder => folder !== '');
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName('Auto-push delay')
+      .setDesc('Seconds without edits before a note is pushed automatically')
+      .addText(text =>
+        text
+          .setValue(String(this.plugin.settings.autoPushDelay))
+          .onChange(async value => {
+            const delay = Number(value);
+            if (!Number.isFinite(delay) || delay < 1) return;
+            this.plugin.settings.autoPushDelay = delay;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private renderPollIntervalSetting(): void {
+    new Setting(this.containerEl)
+      .setName('Remote check interval')
+      .setDesc(
+        'Minutes between checks for changes made on HackMD, shown in the status bar. Set to 0 to disable.'
+      )
+      .addText(text =>
+        text
+          .setValue(String(this.plugin.settings.pollInterval))
+          .onChange(async value => {
+            const interval = Number(value);
+            if (!Number.isFinite(interval) || interval < 0) return;
+            this.plugin.settings.pollInterval = interval;
+            await this.plugin.saveSettings();
+            this.plugin.restartPolling();
+          })
+      );
+  }
+
+  private renderTeamFolderSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Team folders')
+      .setHeading()
+      .setDesc(
+        'New notes pushed from these folders are created in the team workspace, with the permissions below. The deepest matching folder wins.'
+      )
+      .addButton(button =>
+        button.setButtonText('Add team folder').onClick(async () => {
+          const { settings } = this.plugin;
+          settings.teamFolders = [
+            ...settings.teamFolders,
             {
-              value: CommentPermissionType.SIGNED_IN_USERS,
-              label: 'Signed In Users',
+              folder: '',
+              teamPath: '',
+              readPermission: settings.defaultReadPermission,
+              writePermission: settings.defaultWritePermission,
+              commentPermission: settings.defaultCommentPermission,
             },
-            { value: CommentPermissionType.EVERYONE, label: 'Everyone' },
-          ],
-          this.plugin.settings.defaultCommentPermission,
+          ];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    this.plugin.settings.teamFolders.forEach((mapping, index) =>
+      this.renderTeamFolderSetting(mapping, index)
+    );
+  }
+
+  private renderTeamFolderSetting(
+    mapping: TeamFolderMapping,
+    index: number
+  ): void {
+    new Setting(this.containerEl)
+      .addText(text =>
+        text
+          .setPlaceholder('Work/Infra')
+          .setValue(mapping.folder)
+          .onChange(async value => {
+            mapping.folder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('Team path')
+          .setValue(mapping.teamPath)
+          .onChange(async value => {
+            mapping.teamPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          ROLE_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Read: ${label}`,
+          })),
+          mapping.readPermission,
+          async (value: NotePermissionRole) => {
+            mapping.readPermission = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          ROLE_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Write: ${label}`,
+          })),
+          mapping.writePermission,
+          async (value: NotePermissionRole) => {
+            mapping.writePermission = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          COMMENT_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Comment: ${label}`,
+          })),
+          mapping.commentPermission,
           async (value: CommentPermissionType) => {
-            this.plugin.settings.defaultCommentPermission = value;
-            await this.plugin.saveData(this.plugin.settings);
+            mapping.commentPermission = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon('trash')
+          .setTooltip('Remove')
+          .onClick(async () => {
+            this.plugin.settings.teamFolders =
+              this.plugin.settings.teamFolders.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  private renderAccountSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Accounts')
+      .setHeading()
+      .setDesc(
+        'Other HackMD accounts, e.g. a work account next to the personal one above. A note picks one with `hackmd-account: <name>` in its frontmatter or through the account folders below, and keeps it once linked.'
+      )
+      .addButton(button =>
+        button.setButtonText('Add account').onClick(async () => {
+          const { settings } = this.plugin;
+          settings.accounts = [
+            ...settings.accounts,
+            {
+              name: '',
+              accessToken: '',
+              apiUrl: '',
+              webUrl: '',
+              readPermission: settings.defaultReadPermission,
+              writePermission: settings.defaultWritePermission,
+              commentPermission: settings.defaultCommentPermission,
+            },
+          ];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    this.plugin.settings.accounts.forEach((account, index) =>
+      this.renderAccountSetting(account, index)
+    );
+  }
+
+  private renderAccountSetting(account: HackMDAccount, index: number): void {
+    // Clients are keyed by token and API URL, so stale ones are dropped
+    const update = async (change: Partial<HackMDAccount>) => {
+      Object.assign(account, change);
+      await this.plugin.saveSettings();
+      HackMDClient.resetInstance();
+    };
+
+    new Setting(this.containerEl)
+      .setName(account.name || 'New account')
+      .addText(text =>
+        text
+          .setPlaceholder('Name')
+          .setValue(account.name)
+          .onChange(value => update({ name: value.trim() }))
+      )
+      .addText(text =>
+        text
+          .setPlaceholder('Access token')
+          .setValue(account.accessToken)
+          .onChange(value => update({ accessToken: value.trim() }))
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon('trash')
+          .setTooltip('Remove')
+          .onClick(async () => {
+            this.plugin.settings.accounts =
+              this.plugin.settings.accounts.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setDesc('API and web URL, empty for hackmd.io')
+      .addText(text =>
+        text
+          .setPlaceholder(DEFAULT_API_URL)
+          .setValue(account.apiUrl)
+          .onChange(value => update({ apiUrl: value.trim() }))
+      )
+      .addText(text =>
+        text
+          .setPlaceholder(DEFAULT_WEB_URL)
+          .setValue(account.webUrl)
+          .onChange(value => update({ webUrl: value.trim() }))
+      );
+
+    new Setting(this.containerEl)
+      .setDesc('Permissions of new notes')
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          ROLE_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Read: ${label}`,
+          })),
+          account.readPermission,
+          (value: NotePermissionRole) => update({ readPermission: value })
+        )
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          ROLE_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Write: ${label}`,
+          })),
+          account.writePermission,
+          (value: NotePermissionRole) => update({ writePermission: value })
+        )
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          COMMENT_OPTIONS.map(({ value, label }) => ({
+            value,
+            label: `Comment: ${label}`,
+          })),
+          account.commentPermission,
+          (value: CommentPermissionType) => update({ commentPermission: value })
+        )
+      );
+  }
+
+  private renderAccountFolderSettings(): void {
+    new Setting(this.containerEl)
+      .setName('Account folders')
+      .setHeading()
+      .setDesc(
+        'New notes pushed from these folders are created with the chosen account. The deepest matching folder wins, and `hackmd-account` in the frontmatter overrides it.'
+      )
+      .addButton(button =>
+        button.setButtonText('Add account folder').onClick(async () => {
+          const { settings } = this.plugin;
+          settings.accountFolders = [
+            ...settings.accountFolders,
+            { folder: '', account: settings.accounts[0]?.name ?? '' },
+          ];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    this.plugin.settings.accountFolders.forEach((mapping, index) =>
+      this.renderAccountFolderSetting(mapping, index)
+    );
+  }
+
+  private renderAccountFolderSetting(
+    mapping: AccountFolderMapping,
+    index: number
+  ): void {
+    new Setting(this.containerEl)
+      .addText(text =>
+        text
+          .setPlaceholder('Work')
+          .setValue(mapping.folder)
+          .onChange(async value => {
+            mapping.folder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          this.plugin.settings.accounts
+            .filter(account => account.name !== '')
+            .map(({ name }) => ({ value: name, label: name })),
+          mapping.account,
+          async (value: string) => {
+            mapping.account = value;
+            await this.plugin.saveSettings();
+          }
+        )
+      )
+      .addExtraButton(button =>
+        button
+          .setIcon('trash')
+          .setTooltip('Remove')
+          .onClick(async () => {
+            this.plugin.settings.accountFolders =
+              this.plugin.settings.accountFolders.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  private renderHedgeDocSettings(): void {
+    new Setting(this.containerEl)
+      .setName('HedgeDoc')
+      .setHeading()
+      .setDesc(
+        'Sync notes with a HedgeDoc server instead. Notes record the service they belong to in their frontmatter (`provider: hedgedoc`).'
+      );
+
+    new Setting(this.containerEl)
+      .setName('Server URL')
+      .setDesc('Address of the HedgeDoc server')
+      .addText(text =>
+        text
+          .setPlaceholder('https://md.example.com')
+          .setValue(this.plugin.settings.hedgedocUrl)
+          .onChange(async value => {
+            this.plugin.settings.hedgedocUrl = value.trim();
+            await this.plugin.saveSettings();
+            HedgeDocClient.resetInstance();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName('API token')
+      .setDesc('Created in your HedgeDoc profile, under "Access tokens"')
+      .addText(text =>
+        text
+          .setPlaceholder('Enter your HedgeDoc API token')
+          .setValue(this.plugin.settings.hedgedocToken)
+          .onChange(async value => {
+            this.plugin.settings.hedgedocToken = value.trim();
+            await this.plugin.saveSettings();
+            HedgeDocClient.resetInstance();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName('Create new notes on')
+      .setDesc(
+        'Service unlinked notes are pushed to. A note can choose with `provider: hackmd` or `provider: hedgedoc` in its frontmatter.'
+      )
+      .addDropdown(dropdown =>
+        this.configureDropdown(
+          dropdown,
+          (Object.keys(PROVIDER_NAMES) as ProviderId[]).map(value => ({
+            value,
+            label: PROVIDER_NAMES[value],
+          })),
+          this.plugin.settings.defaultProvider,
+          async (value: ProviderId) => {
+            this.plugin.settings.defaultProvider = value;
+            await this.plugin.saveSettings();
           }
         )
       );
   }
 
-  // Configure dropdown with permissions options
-  private configurePermissionDropdown<T>(
-    dropdown: any,
+  // Configure a dropdown offering a fixed set of values
+  private configureDropdown<T extends string>(
+    dropdown: DropdownComponent,
     options: Array<{ value: T; label: string }>,
     currentValue: T,
-    onChange: (value: T) => Promise<void>
-  ) {
+    onChange: (value: T) => unknown
+  ): DropdownComponent {
     options.forEach(({ value, label }) => {
       dropdown.addOption(value, label);
     });
 
-    return dropdown.setValue(currentValue).onChange(onChange);
+    // The dropdown only offers the values added above
+    return dropdown
+      .setValue(currentValue)
+      .onChange(value => onChange(value as T));
   }
 }
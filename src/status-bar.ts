@@ -0,0 +1,96 @@
+import { Menu, Notice } from 'obsidian';
+import { SyncDirection, SyncStatus } from './types';
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  'in-sync': 'In sync',
+  'local-ahead': 'Local ahead',
+  'remote-ahead': 'Remote ahead',
+  diverged: 'Diverged',
+  unlinked: 'Unlinked',
+};
+
+const STATUS_DESCRIPTIONS: Record<SyncStatus, string> = {
+  'in-sync': 'This note matches its HackMD version',
+  'local-ahead': 'This note has changes that are not on HackMD yet',
+  'remote-ahead': 'The HackMD version has changes that are not in this note',
+  diverged: 'This note and its HackMD version both changed',
+  unlinked: 'This note is not linked to HackMD',
+};
+
+/**
+ * Status bar item showing the sync state of the active note
+ */
+export class SyncStatusBar {
+  private el: HTMLElement;
+  private status: SyncStatus | null = null;
+  private onSync: (direction: SyncDirection) => void;
+  private onRefresh: () => void;
+
+  /**
+   * @param el Status bar item created by the plugin
+   * @param onSync Runs a Push or Pull on the active note
+   * @param onRefresh Checks HackMD for remote changes right away
+   */
+  constructor(
+    el: HTMLElement,
+    onSync: (direction: SyncDirection) => void,
+    onRefresh: () => void
+  ) {
+    this.el = el;
+    this.onSync = onSync;
+    this.onRefresh = onRefresh;
+    this.el.addClass('mod-clickable');
+    this.el.addEventListener('click', event => this.showMenu(event));
+    this.setStatus(null);
+  }
+
+  /**
+   * Shows the given state, or hides the item when no note is active
+   */
+  setStatus(status: SyncStatus | null): void {
+    this.status = status;
+    this.el.toggle(status !== null);
+    if (status === null) return;
+
+    this.el.setText(`HackMD: ${STATUS_LABELS[status]}`);
+    this.el.setAttr('aria-label', STATUS_DESCRIPTIONS[status]);
+    this.el.dataset.hackmdStatus = status;
+  }
+
+  /**
+   * Offers the actions that make sense for the current state
+   */
+  private showMenu(event: MouseEvent): void {
+    if (this.status === null) return;
+
+    const actions: Record<
+      SyncStatus,
+      Array<{ title: string; direction: SyncDirection }>
+    > = {
+      'in-sync': [],
+      'local-ahead': [{ title: 'Push to HackMD', direction: 'push' }],
+      'remote-ahead': [{ title: 'Pull from HackMD', direction: 'pull' }],
+      diverged: [
+        { title: 'Pull and merge', direction: 'pull' },
+        { title: 'Push and merge', direction: 'push' },
+      ],
+      unlinked: [{ title: 'Push to HackMD', direction: 'push' }],
+    };
+
+    const menu = new Menu();
+    for (const { title, direction } of actions[this.status]) {
+      menu.addItem(item =>
+        item.setTitle(title).onClick(() => this.onSync(direction))
+      );
+    }
+    if (this.status !== 'unlinked') {
+      menu.addItem(item =>
+        item.setTitle('Check HackMD for changes').onClick(() => {
+          new Notice('Checking HackMD for changes...');
+          this.onRefresh();
+        })
+      );
+    }
+    menu.showAtMouseEvent(event);
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  HackMDErrorType,
+  HackMDMetadata,
+  SyncStateData,
+  SyncStateEntry,
+} from './types';
+
+// Keys the plugin writes to the frontmatter of linked notes
+export const SYNC_METADATA_KEYS: Array<keyof HackMDMetadata> = [
+  'url',
+  'title',
+  'lastSync',
+  'provider',
+  'hackmd-account',
+  'teamPath',
+  'localHash',
+  'remoteHash',
+  'publishLink',
+  'permalink',
+];
+
+// Linked note found in the vault while reconciling
+export interface LinkedNoteInfo {
+  path: string;
+  noteId: string;
+  metadata: Partial<HackMDMetadata>;
+}
+
+/**
+ * Extracts the sync metadata from frontmatter or a sync state entry
+ */
+export function pickSyncMetadata(
+  source: Partial<HackMDMetadata> | null | undefined
+): Partial<HackMDMetadata> {
+  const metadata: Partial<HackMDMetadata> = {};
+  for (const key of SYNC_METADATA_KEYS) {
+    const value = source?.[key];
+    if (typeof value === 'string') {
+      (metadata as Record<string, string>)[key] = value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Persistent sync state of linked notes, keyed by HackMD ID.
+ * It survives frontmatter rewrites by other tools and is kept in line with
+ * vault renames and deletions.
+ */
+export class SyncStateStore {
+  private entries: SyncStateData;
+  private save: () => Promise<void>;
+
+  /**
+   * @param entries Entries restored from plugin data
+   * @param save Persists the store after every change
+   */
+  constructor(entries: SyncStateData, save: () => Promise<void>) {
+    this.entries = { ...entries };
+    this.save = save;
+  }
+
+  get(noteId: string): SyncStateEntry | undefined {
+    return this.entries[noteId];
+  }
+
+  getByPath(path: string): SyncStateEntry | undefined {
+    return Object.values(this.entries).find(entry => entry.path === path);
+  }
+
+  getAll(): SyncStateEntry[] {
+    return Object.values(this.entries);
+  }
+
+  toJSON(): SyncStateData {
+    return this.entries;
+  }
+
+  /**
+   * Creates or updates the entry of a note
+   */
+  async update(
+    noteId: string,
+    changes: Partial<SyncStateEntry> & { path: string }
+  ): Promise<void> {
+    // A path belongs to a single note, e.g. after re-linking a file
+    for (const entry of Object.values(this.entries)) {
+      if (entry.path === changes.path && entry.noteId !== noteId) {
+        delete this.entries[entry.noteId];
+      }
+    }
+    this.entries[noteId] = { ...this.entries[noteId], ...changes, noteId };
+    await this.save();
+  }
+
+  async remove(noteId: string): Promise<void> {
+    if (this.entries[noteId]) {
+      delete this.entries[noteId];
+      await this.save();
+    }
+  }
+
+  async removePath(path: string): Promise<void> {
+    const entry = this.getByPath(path);
+    if (entry) {
+      await this.remove(entry.noteId);
+    }
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const entry = this.getByPath(oldPath);
+    if (entry) {
+      entry.path = newPath;
+      await this.save();
+    }
+  }
+
+  /**
+   * Records a remote change that left the body as the vault has it, e.g. a
+   * change of permissions
+   */
+  async confirmRemoteChange(noteId: string, changedAt: string): Promise<void> {
+    const entry = this.entries[noteId];
+    if (entry) {
+      entry.lastRemoteChange = changedAt;
+      entry.knownRemoteChange = changedAt;
+      await this.save();
+    }
+  }
+
+  /**
+   * Records the last remote change of known notes
+   * @param changes Last change time keyed by HackMD ID
+   */
+  async updateRemoteChanges(changes: Map<string, string>): Promise<void> {
+    let changed = false;
+    for (const [noteId, changedAt] of changes) {
+      const entry = this.entries[noteId];
+      if (entry && entry.lastRemoteChange !== changedAt) {
+        entry.lastRemoteChange = changedAt;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Brings the store in line with the frontmatter of the vault's notes
+   * @param linkedNotes Notes whose frontmatter links them to HackMD
+   * @param exists Checks whether a file still exists in the vault
+   */
+  async reconcile(
+    linkedNotes: LinkedNoteInfo[],
+    exists: (path: string) => boolean
+  ): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const { path, noteId, metadata } of linkedNotes) {
+      seen.add(noteId);
+      const entry = this.entries[noteId];
+      if (!entry) {
+        this.entries[noteId] = { ...metadata, noteId, path };
+        continue;
+      }
+
+      entry.path = path;
+      const syncedElsewhere =
+        entry.lastSync !== undefined &&
+        metadata.lastSync !== undefined &&
+        new Date(metadata.lastSync) > new Date(entry.lastSync);
+      if (entry.lastSync === undefined || syncedElsewhere) {
+        Object.assign(entry, metadata);
+      }
+      if (syncedElsewhere) {
+        // The note was synced by another device, this base is outdated
+        delete entry.base;
+      }
+    }
+
+    // Entries without frontmatter are kept while their file exists, so a
+    // note whose YAML was rewritten stays linked
+    for (const entry of Object.values(this.entries)) {
+      if (!seen.has(entry.noteId) && !exists(entry.path)) {
+        delete this.entries[entry.noteId];
+      }
+    }
+
+    await this.save();
+  }
+}
+
+/**
+ * Checks whether a remote change is newer than the last one the vault has.
+ * Both times come from the remote service, so local clocks don't matter
+ * @returns Undefined for notes without an entry, or with one recorded
+ * before known changes were
+ */
+export function isUnknownRemoteChange(
+  entry: SyncStateEntry | undefined,
+  changedAt: string
+): boolean | undefined {
+  if (!entry?.knownRemoteChange) return undefined;
+  return (
+    new Date(changedAt).getTime() > new Date(entry.knownRemoteChange).getTime()
+  );
+}
+
+/**
+ * Picks the conflict that stops a normal Pull of a note changed locally.
+ * Only notes changed on both sides are merged, which needs the synced body
+ * @param remoteChanged Whether the remote body changed since the last sync
+ * @param hasBase Whether the body of the last sync is known
+ * @returns Undefined when the local changes can be merged
+ */
+export function getPullConflict(
+  remoteChanged: boolean,
+  hasBase: boolean
+): HackMDErrorType | undefined {
+  if (!remoteChanged) {
+    // Nothing to pull, and pulling would drop the local edits
+    return HackMDErrorType.SYNC_CONFLICT_LOCAL;
+  }
+  return hasBase ? undefined : HackMDErrorType.SYNC_CONFLICT_REMOTE;
+}
@@ -1,15 +1,42 @@
 import {
   NotePermissionRole,
   CommentPermissionType,
+  NotePublishType,
 } from '@hackmd/api/dist/type';
 import { IEditor } from './obsidian-service';
 
+// Services notes can be synced with
+export type ProviderId = 'hackmd' | 'hedgedoc';
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  hackmd: 'HackMD',
+  hedgedoc: 'HedgeDoc',
+};
+
+// Remote note a vault note is linked to
+export interface NoteLink {
+  noteId: string;
+  provider: ProviderId;
+  // Named HackMD account, the main one when missing
+  account?: string;
+}
+
 // HackMD metadata stored in note frontmatter
 export interface HackMDMetadata {
   url: string;
   title: string;
   lastSync: string;
+  // Service hosting the note, HackMD when missing
+  provider?: ProviderId;
+  // Named HackMD account the note is synced with, the main one when missing
+  'hackmd-account'?: string;
   teamPath?: string;
+  // Hashes of the note body on each side at the last sync
+  localHash?: string;
+  remoteHash?: string;
+  // Reader-facing links of a published note
+  publishLink?: string;
+  permalink?: string;
 }
 
 // Note frontmatter structure
@@ -21,6 +48,11 @@ export interface SyncPrepareResult {
   content: string;
   frontmatter: NoteFrontmatter | null;
   noteId: string | undefined;
+  provider: ProviderId;
+  // Named HackMD account to sync with, the main one when missing
+  account?: string;
+  // Team the linked note belongs to, if any
+  teamPath?: string;
 }
 
 export interface UpdateLocalNoteParams {
@@ -29,26 +61,169 @@ export interface UpdateLocalNoteParams {
   metadata: Partial<HackMDMetadata>;
 }
 
+// Sync state of a linked note, kept in plugin data next to its frontmatter
+export interface SyncStateEntry extends Partial<HackMDMetadata> {
+  noteId: string;
+  path: string;
+  // Note body at the last sync, used as the base of three-way merges
+  base?: string;
+  // Last remote change seen, from a sync or a background check
+  lastRemoteChange?: string;
+  // Last remote change whose body the vault has, from a sync or a check
+  // finding the body unchanged
+  knownRemoteChange?: string;
+  permissions?: NotePermissions;
+}
+
+// Sync state entries keyed by HackMD ID
+export type SyncStateData = Record<string, SyncStateEntry>;
+
+// Outcome of syncing one note during a vault-wide sync
+export type BulkSyncStatus =
+  | 'pushed'
+  | 'pulled'
+  | 'imported'
+  | 'skipped'
+  | 'conflicted'
+  | 'failed';
+
+export interface BulkSyncEntry {
+  path: string;
+  status: BulkSyncStatus;
+  reason?: string;
+}
+
+export interface MergeOutcome {
+  body: string;
+  // True when the user settled conflicts, so both sides need the new body
+  resolvedByUser: boolean;
+}
+
+// Content of one side before and after a sync, as shown by the previews
+export interface SyncPreviewSection {
+  label: string;
+  before: string;
+  after: string;
+}
+
+// What a Push or Pull would change, computed without changing anything
+export interface SyncPreview {
+  title: string;
+  confirmText: string;
+  sections: SyncPreviewSection[];
+  warnings: string[];
+}
+
 // Response types for HackMD API - simplified to what we use
 export interface HackMDNote {
   id: string;
   title: string;
   content: string;
   createdAt: string;
-  lastChangedAt?: string;
+  lastChangedAt?: string | null;
+  tags?: string[];
   teamPath?: string;
+  // Owner of a personal note, null for team notes
+  userPath?: string | null;
+  readPermission?: NotePermissionRole;
+  writePermission?: NotePermissionRole;
+  commentPermission?: CommentPermissionType;
+  publishType?: NotePublishType;
+  publishedAt?: string | null;
+  publishLink?: string;
+  permalink?: string | null;
+  shortId?: string;
+  // Service the note was read from, HackMD when missing
+  provider?: ProviderId;
+  // Named HackMD account the note was listed with
+  account?: string;
+}
+
+// Notes returned by the list endpoints come without their content
+export type HackMDNoteSummary = Omit<HackMDNote, 'content'>;
+
+// Note metadata served by the HedgeDoc API, only the fields the plugin uses
+export interface HedgeDocNoteMetadata {
+  id: string;
+  primaryAddress?: string | null;
+  title: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface HedgeDocNote {
+  content: string;
+  metadata: HedgeDocNoteMetadata;
+}
+
+/**
+ * Service notes are synced with, implemented by HackMDClient and
+ * HedgeDocClient
+ */
+export interface RemoteProvider {
+  readonly id: ProviderId;
+  getNote(noteId: string, signal?: AbortSignal): Promise<HackMDNote>;
+  getNoteList(signal?: AbortSignal): Promise<HackMDNoteSummary[]>;
+  createNote(options: NoteOptions, signal?: AbortSignal): Promise<HackMDNote>;
+  updateNote(
+    noteId: string,
+    options: NoteOptions,
+    signal?: AbortSignal
+  ): Promise<HackMDNote>;
+  deleteNote(noteId: string, signal?: AbortSignal): Promise<boolean>;
+  // Requests the current user, failing when the server doesn't answer
+  checkConnection(): Promise<void>;
+  getNoteUrl(noteId: string): string;
+  getIdFromUrl(url: string): string | undefined;
+}
+
+// HackMD workspace imported by the workspace import
+export type ImportSource =
+  | { type: 'personal' }
+  | { type: 'team'; teamPath: string }
+  | { type: 'all' };
+
+// Subfolders imported notes are sorted into
+export type ImportGrouping = 'none' | 'tag' | 'team';
+
+export interface WorkspaceImportOptions {
+  source: ImportSource;
+  folder: string;
+  grouping: ImportGrouping;
+}
+
+// Remote note listed by the browse modal
+export interface BrowsableNote {
+  note: HackMDNoteSummary;
+  // Vault note already linked to it
+  linkedPath?: string;
+}
+
+export interface HackMDTeam {
+  id: string;
+  ownerId?: string;
+  name: string;
+  path: string;
+  logo?: string;
+  description?: string;
+  visibility?: 'public' | 'private';
+  createdAt?: string | null;
 }
 
 export interface HackMDUser {
   id: string;
   name: string;
   userPath: string;
+  email?: string | null;
+  photo?: string;
+  teams?: HackMDTeam[];
 }
 
 export interface HackMDResponse {
   status: number;
   ok: boolean;
-  data: HackMDNote | HackMDUser | null;
+  data: HackMDNote | HackMDNoteSummary[] | HackMDUser | HackMDTeam[] | null;
 }
 
 // Only the options we actually send to the API
@@ -58,8 +233,40 @@ export interface NoteOptions {
   readPermission?: NotePermissionRole;
   writePermission?: NotePermissionRole;
   commentPermission?: CommentPermissionType;
+  publishType?: NotePublishType;
 }
 
+export type NotePermissions = Pick<
+  NoteOptions,
+  'readPermission' | 'writePermission' | 'commentPermission'
+>;
+
+// Mutation waiting for HackMD to be reachable again
+export type PendingOperation =
+  | { type: 'push'; path: string }
+  | {
+      type: 'delete';
+      path: string;
+      noteId: string;
+      provider?: ProviderId;
+      account?: string;
+      teamPath?: string;
+    }
+  | {
+      type: 'update';
+      path: string;
+      noteId: string;
+      account?: string;
+      teamPath?: string;
+      options: NoteOptions;
+    };
+
+export type QueuedOperation = PendingOperation & {
+  id: string;
+  queuedAt: string;
+  attempts: number;
+};
+
 // Plugin settings
 export interface HackMDPluginSettings {
   accessToken: string;
@@ -78,9 +285,7 @@ export interface ModalConfig {
 }
 
 // Type guards
-export function isHackMDMetadata(
-  value: unknown
-): value is HackMDMetadata {
+export function isHackMDMetadata(value: unknown): value is HackMDMetadata {
   return (
     value != null &&
     typeof value === 'object' &&
@@ -90,16 +295,6 @@ export function isHackMDMetadata(
   );
 }
 
-export function isHackMDUser(data: unknown): data is HackMDUser {
-  return (
-    data != null &&
-    typeof data === 'object' &&
-    'id' in data &&
-    'name' in data &&
-    'userPath' in data
-  );
-}
-
 export function hasFrontmatter(content: string): boolean {
   return content.startsWith('---\n');
 }
@@ -116,6 +311,10 @@ export enum HackMDErrorType {
   SYNC_CONFLICT_LOCAL = "Local note has been modified since your last sync. Use 'Force Push' to override remote version.",
   SYNC_NOT_LINKED = "This note is not linked to HackMD. Use 'Push' to publish it first.",
   SYNC_METADATA_MISSING = "Sync metadata is missing. Use 'Force Push/Pull' to reset synchronization.",
+  SYNC_MERGE_CONFLICT = 'Local and remote changes overlap. Conflict markers have been added to the note: resolve them, then Push.',
+  SYNC_UNRESOLVED_CONFLICT = 'This note still contains conflict markers. Resolve them before pushing.',
+  SYNC_CANCELLED = 'Sync cancelled. Nothing was changed.',
+  SYNC_CONFLICT_BOTH = "Note was modified both locally and on HackMD. Open it and use 'Push' or 'Pull' to merge the changes.",
 
   // Access Errors
   PERMISSION_DENIED = "You don't have permission to access this HackMD note.",
@@ -124,6 +323,9 @@ export enum HackMDErrorType {
 
   // Network Errors
   CONNECTION_FAILED = 'Unable to connect to HackMD. Check your internet connection.',
+  REQUEST_TIMEOUT = 'HackMD did not answer in time. Check your internet connection and try again.',
+  REQUEST_CANCELLED = 'The request to HackMD was cancelled.',
+  UPDATE_NOT_CONFIRMED = 'HackMD accepted the update but did not apply it in time. Pull the note to check its content before syncing again.',
   SERVER_ERROR = 'The HackMD server encountered an error. Please try again later.',
   RATE_LIMITED = 'Too many requests to HackMD. Please wait a few minutes before trying again.',
 
@@ -131,6 +333,12 @@ export enum HackMDErrorType {
   FILE_EXISTS = 'A file with this name already exists. An alternative name has been used.',
   INVALID_URL = 'The provided HackMD URL is invalid. Check the format.',
   PARSE_ERROR = 'Unable to process the note content. The format may be incompatible.',
+  INVALID_PERMISSION = 'A HackMD permission in the frontmatter is invalid. Check the hackmd-read, hackmd-write and hackmd-comment keys.',
+  INVALID_PUBLISH_TYPE = 'The hackmd-publish key in the frontmatter is invalid. Use edit, view, slide or book.',
+  PROVIDER_UNSUPPORTED = 'This command is only available for notes on HackMD.',
+  ACCOUNT_NOT_FOUND = 'The HackMD account named in hackmd-account is not set up. Add it under "Accounts" in the settings.',
+  HEDGEDOC_NOT_CONFIGURED = 'HedgeDoc is not set up. Enter the server URL and an API token in the settings.',
+  NOT_PUBLISHED = "This note isn't published on HackMD yet. Use 'Set Publish Type' to publish it.",
 
   // Context Errors
   NO_ACTIVE_NOTE = 'This command requires an active Markdown note.',
@@ -144,6 +352,8 @@ export class HackMDError extends Error {
   public type: HackMDErrorType;
   public statusCode?: number;
   public originalError?: any;
+  // Number of requests sent before giving up, when the request was retried
+  public attempts?: number;
 
   constructor(
     type: HackMDErrorType = HackMDErrorType.UNKNOWN,
@@ -166,7 +376,24 @@ export const CONSTANTS = {
   MIN_SYNC_INTERVAL: 1000,
   DEFAULT_TIMEOUT: 10000,
   MAX_RETRIES: 3,
+  RETRY_BASE_DELAY: 1000,
+  MAX_RETRY_DELAY: 30000,
+  // Polling of updates HackMD accepted but applies in the background
+  UPDATE_POLL_DELAY: 500,
+  MAX_UPDATE_POLL_DELAY: 4000,
+  UPDATE_CONFIRM_TIMEOUT: 20000,
+  MAX_AUTO_PUSH_BACKOFF: 300000,
+  OFFLINE_RETRY_DELAY: 30000,
+  MAX_OFFLINE_RETRY_DELAY: 600000,
 } as const;
 
 export type SyncDirection = 'push' | 'pull';
+
+// Sync state of a note, as shown in the status bar
+export type SyncStatus =
+  | 'in-sync'
+  | 'local-ahead'
+  | 'remote-ahead'
+  | 'diverged'
+  | 'unlinked';
 export type SyncMode = 'normal' | 'force';
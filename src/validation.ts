@@ -0,0 +1,259 @@
+import {
+  HackMDError,
+  HackMDErrorType,
+  HackMDNote,
+  HackMDNoteSummary,
+  HackMDTeam,
+  HackMDUser,
+  HedgeDocNote,
+  HedgeDocNoteMetadata,
+} from './types';
+
+// Expected type of a response field. Timestamps are ISO strings or epoch
+// milliseconds, depending on the endpoint and the HackMD version, and are
+// always returned as ISO strings
+type FieldType = 'string' | 'timestamp' | 'string[]' | 'team[]' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+  nullable?: boolean;
+  // Fields of an object
+  schema?: Schema;
+}
+
+// Fields the plugin relies on. Other fields are kept as served
+type Schema = Record<string, FieldRule>;
+
+const NOTE_SUMMARY_SCHEMA: Schema = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  createdAt: { type: 'timestamp' },
+  lastChangedAt: { type: 'timestamp', optional: true, nullable: true },
+  tags: { type: 'string[]', optional: true, nullable: true },
+  teamPath: { type: 'string', optional: true, nullable: true },
+  userPath: { type: 'string', optional: true, nullable: true },
+  readPermission: { type: 'string', optional: true },
+  writePermission: { type: 'string', optional: true },
+  commentPermission: { type: 'string', optional: true },
+  publishType: { type: 'string', optional: true },
+  publishedAt: { type: 'timestamp', optional: true, nullable: true },
+  publishLink: { type: 'string', optional: true, nullable: true },
+  permalink: { type: 'string', optional: true, nullable: true },
+  shortId: { type: 'string', optional: true },
+};
+
+const NOTE_SCHEMA: Schema = {
+  ...NOTE_SUMMARY_SCHEMA,
+  content: { type: 'string' },
+};
+
+const TEAM_SCHEMA: Schema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  path: { type: 'string' },
+  ownerId: { type: 'string', optional: true, nullable: true },
+  logo: { type: 'string', optional: true, nullable: true },
+  description: { type: 'string', optional: true, nullable: true },
+  visibility: { type: 'string', optional: true },
+  createdAt: { type: 'timestamp', optional: true, nullable: true },
+};
+
+const HEDGEDOC_METADATA_SCHEMA: Schema = {
+  id: { type: 'string' },
+  primaryAddress: { type: 'string', optional: true, nullable: true },
+  title: { type: 'string' },
+  tags: { type: 'string[]', optional: true },
+  createdAt: { type: 'timestamp' },
+  updatedAt: { type: 'timestamp', optional: true, nullable: true },
+};
+
+const HEDGEDOC_NOTE_SCHEMA: Schema = {
+  content: { type: 'string' },
+  metadata: { type: 'object', schema: HEDGEDOC_METADATA_SCHEMA },
+};
+
+const USER_SCHEMA: Schema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  userPath: { type: 'string' },
+  email: { type: 'string', optional: true, nullable: true },
+  photo: { type: 'string', optional: true, nullable: true },
+  teams: { type: 'team[]', optional: true },
+};
+
+/**
+ * Checks a note served by HackMD
+ * @param source Request the note was served for, e.g. `GET /notes/abc`
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseNote(data: unknown, source: string): HackMDNote {
+  return readShape(data, NOTE_SCHEMA, source, 'note') as unknown as HackMDNote;
+}
+
+/**
+ * Checks a list of notes served without their content
+ * @param source Request the list was served for
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseNoteList(
+  data: unknown,
+  source: string
+): HackMDNoteSummary[] {
+  return readList(
+    data,
+    NOTE_SUMMARY_SCHEMA,
+    source,
+    'notes'
+  ) as unknown[] as HackMDNoteSummary[];
+}
+
+/**
+ * Checks a list of teams
+ * @param source Request the list was served for
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseTeamList(data: unknown, source: string): HackMDTeam[] {
+  return readList(
+    data,
+    TEAM_SCHEMA,
+    source,
+    'teams'
+  ) as unknown[] as HackMDTeam[];
+}
+
+/**
+ * Checks the profile of the current user, including their teams
+ * @param source Request the profile was served for
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseUser(data: unknown, source: string): HackMDUser {
+  return readShape(data, USER_SCHEMA, source, 'user') as unknown as HackMDUser;
+}
+
+/**
+ * Checks a note served by a HedgeDoc server
+ * @param source Request the note was served for
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseHedgeDocNote(data: unknown, source: string): HedgeDocNote {
+  return readShape(
+    data,
+    HEDGEDOC_NOTE_SCHEMA,
+    source,
+    'note'
+  ) as unknown as HedgeDocNote;
+}
+
+/**
+ * Checks the metadata of the notes listed by a HedgeDoc server
+ * @param source Request the list was served for
+ * @throws HackMDError PARSE_ERROR naming the first unexpected field
+ */
+export function parseHedgeDocNoteList(
+  data: unknown,
+  source: string
+): HedgeDocNoteMetadata[] {
+  return readList(
+    data,
+    HEDGEDOC_METADATA_SCHEMA,
+    source,
+    'notes'
+  ) as unknown[] as HedgeDocNoteMetadata[];
+}
+
+function readList(
+  data: unknown,
+  schema: Schema,
+  source: string,
+  path: string
+): Record<string, unknown>[] {
+  if (!Array.isArray(data)) {
+    throw parseError(source, path, 'a list', data);
+  }
+  return data.map((item, index) =>
+    readShape(item, schema, source, `${path}[${index}]`)
+  );
+}
+
+// Checks an object against a schema, returning a copy with ISO timestamps
+function readShape(
+  data: unknown,
+  schema: Schema,
+  source: string,
+  path: string
+): Record<string, unknown> {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw parseError(source, path, 'an object', data);
+  }
+
+  const record = { ...(data as Record<string, unknown>) };
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = record[field];
+    const fieldPath = `${path}.${field}`;
+    if (value === undefined && rule.optional) continue;
+    if (value === null && rule.nullable) continue;
+
+    if (rule.type === 'team[]') {
+      record[field] = readList(value, TEAM_SCHEMA, source, fieldPath);
+    } else if (rule.type === 'object' && rule.schema) {
+      record[field] = readShape(value, rule.schema, source, fieldPath);
+    } else if (!matchesType(value, rule.type)) {
+      throw parseError(source, fieldPath, describeType(rule.type), value);
+    } else if (rule.type === 'timestamp' && typeof value === 'number') {
+      record[field] = new Date(value).toISOString();
+    }
+  }
+  return record;
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'timestamp':
+      return (
+        typeof value === 'string' ||
+        (typeof value === 'number' && !isNaN(new Date(value).getTime()))
+      );
+    case 'string[]':
+      return (
+        Array.isArray(value) && value.every(item => typeof item === 'string')
+      );
+    default:
+      return false;
+  }
+}
+
+function describeType(type: FieldType): string {
+  switch (type) {
+    case 'string':
+      return 'a string';
+    case 'timestamp':
+      return 'a date';
+    case 'string[]':
+      return 'a list of strings';
+    case 'team[]':
+      return 'a list of teams';
+    case 'object':
+      return 'an object';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value;
+}
+
+function parseError(
+  source: string,
+  path: string,
+  expected: string,
+  value: unknown
+): HackMDError {
+  return new HackMDError(
+    HackMDErrorType.PARSE_ERROR,
+    `Unexpected response from ${source}: ${path} should be ${expected}, got ${describeValue(value)}. The server may have changed its API.`
+  );
+}
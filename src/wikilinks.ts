@@ -0,0 +1,128 @@
+// What a wikilink to a note without a remote copy becomes on push
+export type WikilinkFallback = 'text' | 'keep';
+
+// Looks up vault notes and their remote copies for a single note
+export interface LinkResolver {
+  // URL of the remote copy of a vault note, undefined when it has none
+  getNoteUrl(linkpath: string): string | undefined;
+  // Link text of the vault note a remote URL points to, if any
+  getLinkText(url: string): string | undefined;
+}
+
+// [[target#heading|alias]], with a leading ! for embeds
+const WIKILINK = /(!?)\[\[([^\]|#\n]*)(?:#([^\]|\n]*))?(?:\|([^\]\n]*))?\]\]/g;
+
+// [text](url), with a leading ! for images
+const MARKDOWN_LINK = /(!?)\[([^\]\n]*)\]\(([^)\s]+)\)/g;
+
+// Fenced code blocks, unclosed ones running to the end, and inline code
+const CODE =
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|(?![\s\S]))|`[^`\n]+`/gm;
+
+/**
+ * Converts Obsidian wikilinks to links the remote service can render, and
+ * back. Conversions keep the number of lines, and code is left untouched.
+ */
+export class LinkConverter {
+  private readonly resolver: LinkResolver;
+  private readonly fallback: WikilinkFallback;
+
+  constructor(resolver: LinkResolver, fallback: WikilinkFallback) {
+    this.resolver = resolver;
+    this.fallback = fallback;
+  }
+
+  /**
+   * Rewrites wikilinks to linked vault notes as links to their remote copy.
+   * Other wikilinks become plain text or stay as written, per the fallback.
+   * Embeds are kept as written.
+   */
+  toRemote(body: string): string {
+    return replaceOutsideCode(body, text =>
+      text.replace(WIKILINK, (link, embed, target, heading, alias) => {
+        if (embed) return link;
+        const linkpath = target.trim();
+        const label = alias?.trim() || getLabel(linkpath, heading?.trim());
+        const url = linkpath ? this.resolver.getNoteUrl(linkpath) : undefined;
+        if (!url) {
+          return this.fallback === 'keep' ? link : label;
+        }
+        return heading?.trim()
+          ? `[${label}](${url}#${toAnchor(heading.trim())})`
+          : `[${label}](${url})`;
+      })
+    );
+  }
+
+  /**
+   * Rewrites links to remote copies of vault notes as wikilinks
+   * @param previous Bodies the vault had, e.g. at the last sync. A line the
+   * remote still has as they were pushed is restored as written, keeping
+   * the wikilinks the push turned into plain text
+   */
+  toLocal(body: string, previous: string[] = []): string {
+    const pushedLines = new Map<string, string>();
+    for (const local of previous) {
+      const localLines = local.split('\n');
+      const remoteLines = this.toRemote(local).split('\n');
+      remoteLines.forEach((line, index) => {
+        if (!pushedLines.has(line)) {
+          pushedLines.set(line, localLines[index]);
+        }
+      });
+    }
+
+    const converted = replaceOutsideCode(body, text =>
+      text.replace(MARKDOWN_LINK, (link, image, label, url) => {
+        if (image) return link;
+        const [noteUrl, anchor] = url.split('#', 2);
+        const linktext = this.resolver.getLinkText(noteUrl);
+        if (!linktext) return link;
+        const heading = anchor ? fromAnchor(anchor) : undefined;
+        const target = heading ? `${linktext}#${heading}` : linktext;
+        return label === getLabel(linktext, heading)
+          ? `[[${target}]]`
+          : `[[${target}|${label}]]`;
+      })
+    );
+
+    const lines = body.split('\n');
+    return converted
+      .split('\n')
+      .map((line, index) => pushedLines.get(lines[index]) ?? line)
+      .join('\n');
+  }
+}
+
+// Text Obsidian shows for a wikilink without an alias
+function getLabel(linkpath: string, heading?: string): string {
+  if (!heading) return linkpath;
+  return linkpath ? `${linkpath} > ${heading}` : heading;
+}
+
+function toAnchor(heading: string): string {
+  return encodeURIComponent(heading.replace(/\s+/g, '-'));
+}
+
+function fromAnchor(anchor: string): string {
+  try {
+    return decodeURIComponent(anchor).replace(/-/g, ' ');
+  } catch {
+    return anchor;
+  }
+}
+
+function replaceOutsideCode(
+  text: string,
+  replace: (segment: string) => string
+): string {
+  const code = new RegExp(CODE.source, CODE.flags);
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = code.exec(text)) !== null) {
+    result += replace(text.slice(last, match.index)) + match[0];
+    last = match.index + match[0].length;
+  }
+  return result + replace(text.slice(last));
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CommentPermissionType,
+  NotePermissionRole,
+} from '@hackmd/api/dist/type';
+import { getFrontmatterAccount, resolveAccount } from '../src/accounts';
+import { DEFAULT_API_URL, DEFAULT_WEB_URL } from '../src/client';
+import type { HackMDPluginSettings } from '../src/settings';
+import { HackMDErrorType } from '../src/types';
+
+describe('resolveAccount', () => {
+  // Only the settings describing accounts
+  const settings = {
+    accessToken: 'personal-token',
+    apiUrl: 'https://md.example.com/api/v1',
+    webUrl: 'https://md.example.com',
+    defaultReadPermission: NotePermissionRole.OWNER,
+    defaultWritePermission: NotePermissionRole.OWNER,
+    defaultCommentPermission: CommentPermissionType.DISABLED,
+    accounts: [
+      {
+        name: 'work',
+        accessToken: 'work-token',
+        apiUrl: '',
+        webUrl: '',
+        readPermission: NotePermissionRole.SIGNED_IN,
+        writePermission: NotePermissionRole.OWNER,
+        commentPermission: CommentPermissionType.SIGNED_IN_USERS,
+      },
+    ],
+  } as HackMDPluginSettings;
+
+  it('should use the main account when no name is given', () => {
+    // WHEN - resolving a note without account
+    const account = resolveAccount(settings);
+
+    // THEN - the top-level settings are used
+    expect(account).toEqual({
+      accessToken: 'personal-token',
+      apiUrl: 'https://md.example.com/api/v1',
+      webUrl: 'https://md.example.com',
+      readPermission: NotePermissionRole.OWNER,
+      writePermission: NotePermissionRole.OWNER,
+      commentPermission: CommentPermissionType.DISABLED,
+    });
+  });
+
+  it('should use hackmd.io for named accounts without servers', () => {
+    // WHEN - resolving the work account
+    const account = resolveAccount(settings, 'work');
+
+    // THEN - its token and permissions are used, on hackmd.io
+    expect(account).toMatchObject({
+      name: 'work',
+      accessToken: 'work-token',
+      apiUrl: DEFAULT_API_URL,
+      webUrl: DEFAULT_WEB_URL,
+      readPermission: NotePermissionRole.SIGNED_IN,
+    });
+  });
+
+  it('should reject unknown accounts', () => {
+    expect(() => resolveAccount(settings, 'school')).toThrow(
+      expect.objectContaining({
+        type: HackMDErrorType.ACCOUNT_NOT_FOUND,
+        message: expect.stringContaining('"school"'),
+      })
+    );
+  });
+});
+
+describe('getFrontmatterAccount', () => {
+  it('should read the declared account', () => {
+    expect(getFrontmatterAccount({ 'hackmd-account': ' work ' })).toBe('work');
+  });
+
+  it('should ignore missing or empty values', () => {
+    expect(getFrontmatterAccount(null)).toBeUndefined();
+    expect(getFrontmatterAccount({ 'hackmd-account': '' })).toBeUndefined();
+    expect(getFrontmatterAccount({ 'hackmd-account': '  ' })).toBeUndefined();
+  });
+});
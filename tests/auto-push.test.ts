@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AutoPushScheduler } from '../src/auto-push';
+import { HackMDError, HackMDErrorType } from '../src/types';
+
+describe('AutoPushScheduler', () => {
+  const delay = 1000;
+  let push: ReturnType<typeof vi.fn>;
+  let onError: ReturnType<typeof vi.fn>;
+  let scheduler: AutoPushScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    push = vi.fn().mockResolvedValue(undefined);
+    onError = vi.fn();
+    scheduler = new AutoPushScheduler(() => delay, push, onError);
+  });
+
+  afterEach(() => {
+    scheduler.cancelAll();
+    vi.useRealTimers();
+  });
+
+  it('should push once after the quiet period', async () => {
+    // GIVEN - several modifications in quick succession
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay / 2);
+    scheduler.schedule('note.md');
+
+    // WHEN - the quiet period elapses after the last one
+    await vi.advanceTimersByTimeAsync(delay);
+
+    // THEN - a single push happens
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(push).toHaveBeenCalledWith('note.md');
+  });
+
+  it('should back off and retry when rate limited', async () => {
+    // GIVEN - HackMD rejects the first push
+    push.mockRejectedValueOnce(new HackMDError(HackMDErrorType.RATE_LIMITED));
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+    expect(push).toHaveBeenCalledTimes(1);
+
+    // WHEN - the regular delay elapses again
+    await vi.advanceTimersByTimeAsync(delay);
+
+    // THEN - the retry waits for the doubled delay
+    expect(push).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(delay);
+    expect(push).toHaveBeenCalledTimes(2);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should stop pushing a note after a remote conflict', async () => {
+    // GIVEN - the remote note changed since the last sync
+    const conflict = new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE);
+    push.mockRejectedValueOnce(conflict);
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+
+    // WHEN - the note is modified again
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+
+    // THEN - it is reported once and no longer pushed
+    expect(onError).toHaveBeenCalledWith('note.md', conflict);
+    expect(scheduler.isSuspended('note.md')).toBe(true);
+    expect(push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should push again once resumed', async () => {
+    push.mockRejectedValueOnce(
+      new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE)
+    );
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+
+    scheduler.resume('note.md');
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+
+    expect(push).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report other failures without suspending the note', async () => {
+    const failure = new HackMDError(HackMDErrorType.CONNECTION_FAILED);
+    push.mockRejectedValueOnce(failure);
+
+    scheduler.schedule('note.md');
+    await vi.advanceTimersByTimeAsync(delay);
+
+    expect(onError).toHaveBeenCalledWith('note.md', failure);
+    expect(scheduler.isSuspended('note.md')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { CalloutConverter, DEFAULT_CALLOUT_MAPPINGS } from '../src/callouts';
+
+describe('CalloutConverter', () => {
+  const converter = new CalloutConverter(DEFAULT_CALLOUT_MAPPINGS);
+
+  describe('toRemote', () => {
+    it('should push mapped callouts as containers', () => {
+      // GIVEN - a callout with a title and an empty line
+      const body = '> [!warning] Careful\n> First\n>\n> Second\nAfter';
+
+      // WHEN/THEN - it becomes the mapped container
+      expect(converter.toRemote(body)).toBe(
+        ':::warning Careful\nFirst\n\nSecond\n:::\nAfter'
+      );
+    });
+
+    it('should wrap foldable callouts in a spoiler', () => {
+      expect(converter.toRemote('> [!note]- Details\n> Hidden')).toBe(
+        '::::spoiler Details\n:::info\nHidden\n:::\n::::'
+      );
+      expect(converter.toRemote('> [!spoiler]+\n> Shown')).toBe(
+        ':::spoiler {state="open"}\nShown\n:::'
+      );
+    });
+
+    it('should leave unmapped callouts and code untouched', () => {
+      const body = '> [!quote]\n> Words\n```\n> [!warning]\n```';
+
+      expect(converter.toRemote(body)).toBe(body);
+    });
+  });
+
+  describe('toLocal', () => {
+    it('should turn containers into callouts', () => {
+      // GIVEN - containers written on HackMD
+      const body = [
+        ':::danger Stop',
+        'Now',
+        ':::',
+        ':::spoiler Answer',
+        '42',
+        ':::',
+      ].join('\n');
+
+      // WHEN/THEN - they become the callouts mapped to them
+      expect(converter.toLocal(body)).toBe(
+        '> [!danger] Stop\n> Now\n> [!spoiler]- Answer\n> 42'
+      );
+    });
+
+    it('should round-trip the callouts it pushed', () => {
+      const body = [
+        '> [!note]+ Open',
+        '> Body',
+        '>',
+        '> More',
+        '',
+        '> [!success]',
+        '> Done',
+      ].join('\n');
+
+      expect(converter.toLocal(converter.toRemote(body))).toBe(body);
+    });
+
+    it('should restore the type of callouts sharing a container', () => {
+      // GIVEN - two callout types pushed as the same container
+      const shared = new CalloutConverter([
+        { callout: 'note', container: 'info' },
+        { callout: 'info', container: 'info' },
+      ]);
+      const local = '> [!INFO] Kept\n> Same';
+      const remote = `${shared.toRemote(local)}\n:::info New\nAdded\n:::`;
+
+      // WHEN - pulling the remote body
+      const pulled = shared.toLocal(remote, [local]);
+
+      // THEN - the unchanged block keeps its type, the new one gets the first
+      expect(pulled).toBe('> [!INFO] Kept\n> Same\n> [!note] New\n> Added');
+    });
+
+    it('should keep the prefix of nested quotes in edited callouts', () => {
+      // GIVEN - a callout quoting with `>>`, edited on HackMD
+      const local = '> [!note]\n>> Quoted\n> > Spaced\n> Text';
+      const remote = converter.toRemote(local).replace('Text', 'Text, edited');
+
+      // WHEN - pulling the remote body
+      const pulled = converter.toLocal(remote, [local]);
+
+      // THEN - the nested quotes keep the prefix they were written with
+      expect(pulled).toBe('> [!note]\n>> Quoted\n> > Spaced\n> Text, edited');
+    });
+  });
+});
@@ -14,6 +14,13 @@ describe('HackMDClient Core', () => {
     userPath: 'test-path',
   };
 
+  const noteResponse = (id: string) => ({
+    id,
+    title: 'Test Note',
+    content: '# Test Content',
+    createdAt: '2025-01-01T00:00:00.000Z',
+  });
+
   /**
    * Helper to create an authenticated client instance for testing
    */
@@ -67,7 +74,7 @@ describe('HackMDClient Core', () => {
 
       // Verify behavior: client can be used to perform operations
       mockObsidianService.requestUrl.mockReset();
-      mockObsidianService.mockSuccessfulApiResponse({ id: 'test-id' });
+      mockObsidianService.mockSuccessfulApiResponse(noteResponse('test-id'));
       await expect(client.getNote('test-id')).resolves.not.toThrow();
     });
 
@@ -104,6 +111,44 @@ describe('HackMDClient Core', () => {
       expect(instance1).not.toBe(instance2);
     });
 
+    it('should keep the clients of several accounts', async () => {
+      // GIVEN - clients of a personal and a work account
+      const personal = await createAuthenticatedClient('personal-token');
+      const work = await createAuthenticatedClient('work-token');
+
+      // WHEN - requesting the personal client again
+      const client = await HackMDClient.getInstance(
+        'personal-token',
+        mockObsidianService
+      );
+
+      // THEN - it is reused without verifying the token again
+      expect(client).toBe(personal);
+      expect(client).not.toBe(work);
+      expect(mockObsidianService.requestUrl).not.toHaveBeenCalled();
+    });
+
+    it('should send requests to a self-hosted API', async () => {
+      // GIVEN - a client of an enterprise instance
+      mockObsidianService.mockSuccessfulApiResponse(validUserResponse);
+      const client = await HackMDClient.getInstance(
+        'enterprise-token',
+        mockObsidianService,
+        'https://md.example.com/api/v1/'
+      );
+
+      // WHEN - reading a note
+      mockObsidianService.mockSuccessfulApiResponse(noteResponse('abc'));
+      await client.getNote('abc');
+
+      // THEN - the configured API is called
+      expect(mockObsidianService.requestUrl).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          url: 'https://md.example.com/api/v1/notes/abc',
+        })
+      );
+    });
+
     it('should throw auth error when API rejects', async () => {
       // GIVEN - a configuration to simulate an authentication error
       mockObsidianService.mockFailedApiResponse(401, 'Invalid token');
@@ -149,8 +194,10 @@ describe('HackMDClient Core', () => {
 
       // WHEN/THEN - operation should fail with proper error
       await expect(client.getMe()).rejects.toMatchObject({
-        type: HackMDErrorType.AUTH_INVALID,
-        message: expect.stringContaining('Failed to get user information'),
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'GET /me: user.id should be a string, got undefined'
+        ),
       });
     });
   });
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { HackMDClient } from '../src/client';
 import { MockObsidianService } from './mocks/obsidian-service.mock';
-import { HackMDErrorType } from '../src/types';
+import { CONSTANTS, HackMDErrorType } from '../src/types';
 
 describe('HackMDClient Operations', () => {
   // Common configuration
@@ -62,6 +62,21 @@ describe('HackMDClient Operations', () => {
       expect(note).toEqual(mockNote);
     });
 
+    it('should reject a note with the wrong shape', async () => {
+      // GIVEN - HackMD serves a note without its content
+      const client = await createAuthenticatedClient();
+      mockObsidianService.mockSuccessfulApiResponse({
+        ...mockNote,
+        content: undefined,
+      });
+
+      // WHEN/THEN - the note is rejected before it reaches the vault
+      await expect(client.getNote('note-id')).rejects.toMatchObject({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining('note.content should be a string'),
+      });
+    });
+
     it('should throw error when note not found', async () => {
       // GIVEN - a preconfigured client
       const client = await createAuthenticatedClient();
@@ -121,6 +136,45 @@ describe('HackMDClient Operations', () => {
     });
   });
 
+  describe('getNoteList', () => {
+    it('should return the notes of the current user', async () => {
+      // GIVEN - a preconfigured client
+      const client = await createAuthenticatedClient();
+      const summary = {
+        id: mockNote.id,
+        title: mockNote.title,
+        createdAt: mockNote.createdAt,
+      };
+      mockObsidianService.mockSuccessfulApiResponse([summary]);
+
+      // WHEN - listing notes
+      const notes = await client.getNoteList();
+
+      // THEN - the summaries are returned and the list endpoint was used
+      expect(notes).toEqual([summary]);
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          url: expect.stringMatching(/\/notes$/),
+        })
+      );
+    });
+
+    it('should throw error when the response is not a list', async () => {
+      // GIVEN - a preconfigured client
+      const client = await createAuthenticatedClient();
+      mockObsidianService.mockSuccessfulApiResponse({ id: 'not-a-list' });
+
+      // WHEN/THEN - operation should fail with proper error
+      await expect(client.getNoteList()).rejects.toMatchObject({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'GET /notes: notes should be a list, got object'
+        ),
+      });
+    });
+  });
+
   describe('createNote', () => {
     it('should create a note with provided options', async () => {
       // GIVEN - a preconfigured client
@@ -169,8 +223,141 @@ describe('HackMDClient Operations', () => {
 
       // WHEN/THEN - operation should fail with proper error
       await expect(client.createNote({ title: 'Test' })).rejects.toMatchObject({
-        type: HackMDErrorType.UNKNOWN,
-        message: expect.stringContaining('Failed to create note'),
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'POST /notes: note should be an object, got null'
+        ),
+      });
+    });
+  });
+
+  describe('createTeamNote', () => {
+    it('should create the note under the team path', async () => {
+      // GIVEN - a preconfigured client
+      const client = await createAuthenticatedClient();
+      const createdNote = { ...mockNote, teamPath: 'infra' };
+      mockObsidianService.mockSuccessfulApiResponse(createdNote);
+
+      // WHEN - creating a note in a team
+      const result = await client.createTeamNote('infra', {
+        content: '# Runbook',
+      });
+
+      // THEN - the team notes endpoint was used
+      expect(result).toEqual(createdNote);
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'POST',
+          url: expect.stringMatching(/\/teams\/infra\/notes$/),
+        })
+      );
+    });
+
+    it('should throw error when response data is invalid', async () => {
+      const client = await createAuthenticatedClient();
+      mockObsidianService.mockSuccessfulApiResponse(null);
+
+      await expect(
+        client.createTeamNote('infra', { title: 'Test' })
+      ).rejects.toMatchObject({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining('POST /teams/infra/notes: note'),
+      });
+    });
+  });
+
+  describe('getTeams', () => {
+    it('should return the teams of the current user', async () => {
+      // GIVEN - a preconfigured client
+      const client = await createAuthenticatedClient();
+      const team = { id: 'team-id', name: 'Infra', path: 'infra' };
+      mockObsidianService.mockSuccessfulApiResponse([team]);
+
+      // WHEN - listing teams
+      const teams = await client.getTeams();
+
+      // THEN - the teams are returned
+      expect(teams).toEqual([team]);
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ url: expect.stringMatching(/\/teams$/) })
+      );
+    });
+
+    it('should throw error when the response is not a list', async () => {
+      const client = await createAuthenticatedClient();
+      mockObsidianService.mockSuccessfulApiResponse(null);
+
+      await expect(client.getTeams()).rejects.toMatchObject({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'GET /teams: teams should be a list, got null'
+        ),
+      });
+    });
+  });
+
+  describe('team notes', () => {
+    it('should list the notes of a team', async () => {
+      const client = await createAuthenticatedClient();
+      const summary = {
+        id: 'note-id',
+        title: 'Runbook',
+        teamPath: 'infra',
+        createdAt: mockNote.createdAt,
+      };
+      mockObsidianService.mockSuccessfulApiResponse([summary]);
+
+      const notes = await client.getTeamNoteList('infra');
+
+      expect(notes).toEqual([summary]);
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          url: expect.stringMatching(/\/teams\/infra\/notes$/),
+        })
+      );
+    });
+
+    it('should update and delete notes under the team path', async () => {
+      // GIVEN - a preconfigured client
+      const client = await createAuthenticatedClient();
+      const updatedNote = { ...mockNote, teamPath: 'infra' };
+      mockObsidianService.mockSuccessfulApiResponse(updatedNote);
+      mockObsidianService.mockSuccessfulApiResponse(null);
+
+      // WHEN - updating then deleting a team note
+      const result = await client.updateTeamNote('infra', 'note-id', {
+        content: '# Updated',
+      });
+      await client.deleteTeamNote('infra', 'note-id');
+
+      // THEN - both requests went to the team note endpoint
+      expect(result).toEqual(updatedNote);
+      const calls = mockObsidianService.requestUrl.mock.calls.map(
+        ([request]) => [request.method, request.url]
+      );
+      expect(calls).toEqual([
+        ['PATCH', expect.stringMatching(/\/teams\/infra\/notes\/note-id$/)],
+        ['DELETE', expect.stringMatching(/\/teams\/infra\/notes\/note-id$/)],
+      ]);
+    });
+
+    it('should map forbidden team requests to TEAM_ACCESS_DENIED', async () => {
+      // GIVEN - a team the user doesn't belong to
+      const client = await createAuthenticatedClient();
+      mockObsidianService.mockFailedApiResponse(403, 'Forbidden');
+      mockObsidianService.mockFailedApiResponse(403, 'Forbidden');
+
+      // WHEN/THEN - listing and reading its notes fail with the team error
+      await expect(client.getTeamNoteList('infra')).rejects.toMatchObject({
+        type: HackMDErrorType.TEAM_ACCESS_DENIED,
+        statusCode: 403,
+      });
+      await expect(
+        client.getTeamNote('infra', 'note-id')
+      ).rejects.toMatchObject({
+        type: HackMDErrorType.TEAM_ACCESS_DENIED,
+        statusCode: 403,
       });
     });
   });
@@ -220,15 +407,110 @@ describe('HackMDClient Operations', () => {
           }),
         });
 
-      // WHEN - updating the note
-      const result = await client.updateNote('note-id', {
-        title: 'Delayed Update',
-      });
+      // WHEN - updating the note, as last read
+      const result = await client.updateNote(
+        'note-id',
+        { title: 'Delayed Update' },
+        undefined,
+        mockNote
+      );
 
       // THEN - the note should eventually be updated via getNote
       expect(result.title).toBe('Delayed Update');
     });
 
+    describe('when HackMD applies the update in the background', () => {
+      const oldNote = {
+        ...mockNote,
+        lastChangedAt: '2020-01-01T00:00:00.000Z',
+      };
+
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should poll until the new content shows', async () => {
+        // GIVEN - HackMD serves the old content once before the new one
+        const client = await createAuthenticatedClient();
+        mockObsidianService.requestUrl.mockResolvedValueOnce({
+          status: 202,
+          text: '',
+        });
+        // The note wasn't given, so its change time is read right away
+        mockObsidianService.mockSuccessfulApiResponse(oldNote);
+        mockObsidianService.mockSuccessfulApiResponse(oldNote);
+        mockObsidianService.mockSuccessfulApiResponse({
+          ...oldNote,
+          content: '# New Content',
+        });
+
+        // WHEN - updating the note
+        const update = client.updateNote('note-id', {
+          content: '# New Content\n',
+        });
+        await vi.advanceTimersByTimeAsync(CONSTANTS.UPDATE_POLL_DELAY * 3);
+
+        // THEN - the confirmed note is returned
+        await expect(update).resolves.toMatchObject({
+          content: '# New Content',
+        });
+        expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(4);
+      });
+
+      it('should accept a note whose change time moved', async () => {
+        // GIVEN - HackMD reports a change since the note was read, in a
+        // clock the local one may drift from
+        const client = await createAuthenticatedClient();
+        mockObsidianService.requestUrl.mockResolvedValueOnce({
+          status: 202,
+          text: '',
+        });
+        mockObsidianService.mockSuccessfulApiResponse({
+          ...oldNote,
+          lastChangedAt: '2020-01-01T00:00:01.000Z',
+        });
+
+        // WHEN - updating the note, as last read
+        const update = client.updateNote(
+          'note-id',
+          { content: '# Other' },
+          undefined,
+          oldNote
+        );
+        await vi.advanceTimersByTimeAsync(CONSTANTS.UPDATE_POLL_DELAY);
+
+        // THEN - the update counts as applied
+        await expect(update).resolves.toBeDefined();
+      });
+
+      it('should fail when the update never shows', async () => {
+        // GIVEN - HackMD keeps serving the old content
+        const client = await createAuthenticatedClient();
+        mockObsidianService.requestUrl
+          .mockResolvedValueOnce({ status: 202, text: '' })
+          .mockResolvedValue({
+            status: 200,
+            json: oldNote,
+            text: JSON.stringify(oldNote),
+          });
+
+        // WHEN - updating the note
+        const update = expect(
+          client.updateNote('note-id', { content: '# New Content' })
+        ).rejects.toMatchObject({
+          type: HackMDErrorType.UPDATE_NOT_CONFIRMED,
+        });
+        await vi.advanceTimersByTimeAsync(CONSTANTS.UPDATE_CONFIRM_TIMEOUT);
+
+        // THEN - the push fails instead of recording a stale state
+        await update;
+      });
+    });
+
     it('should throw error when update data is invalid', async () => {
       // GIVEN - a preconfigured client
       const client = await createAuthenticatedClient();
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getIdFromUrl, getUrlFromId } from '../src/client';
+import { getIdFromUrl, getPublishedUrl, getUrlFromId } from '../src/client';
 
 describe('getIdFromUrl', () => {
   it('should extract identifier from standard URL', () => {
@@ -24,6 +24,16 @@ describe('getIdFromUrl', () => {
     expect(getIdFromUrl('https://example.com/some-page')).toBeUndefined();
   });
 
+  it('should not match hosts that only contain the HackMD host', () => {
+    expect(getIdFromUrl('https://evilhackmd.io/abcd1234')).toBeUndefined();
+    expect(
+      getIdFromUrl('https://hackmd.io.example.com/abcd1234')
+    ).toBeUndefined();
+    expect(
+      getIdFromUrl('https://example.com/?next=https://hackmd.io/abcd1234')
+    ).toBeUndefined();
+  });
+
   it('should handle empty string input', () => {
     expect(getIdFromUrl('')).toBeUndefined();
   });
@@ -35,10 +45,51 @@ describe('getIdFromUrl', () => {
   it('should handle null input', () => {
     expect(getIdFromUrl(null as any)).toBeUndefined();
   });
+
+  it('should extract identifier from a self-hosted URL', () => {
+    expect(
+      getIdFromUrl(
+        'https://md.example.com/@user/abcd1234',
+        'https://md.example.com/'
+      )
+    ).toBe('abcd1234');
+  });
+
+  it('should only recognize the configured host', () => {
+    expect(
+      getIdFromUrl('https://hackmd.io/abcd1234', 'https://md.example.com')
+    ).toBeUndefined();
+  });
 });
 
 describe('getUrlFromId', () => {
   it('should generate URL from alphanumeric ID', () => {
     expect(getUrlFromId('abcd1234')).toBe('https://hackmd.io/abcd1234');
   });
+
+  it('should generate URL on a self-hosted instance', () => {
+    expect(getUrlFromId('abcd1234', 'https://md.example.com/')).toBe(
+      'https://md.example.com/abcd1234'
+    );
+  });
+});
+
+describe('getPublishedUrl', () => {
+  it('should return the publish link of a published note', () => {
+    expect(
+      getPublishedUrl({
+        publishLink: 'https://hackmd.io/@user/abc',
+        publishedAt: '2024-01-01T00:00:00.000Z',
+      })
+    ).toBe('https://hackmd.io/@user/abc');
+  });
+
+  it('should return nothing for an unpublished note', () => {
+    expect(
+      getPublishedUrl({
+        publishLink: 'https://hackmd.io/@user/abc',
+        publishedAt: null,
+      })
+    ).toBeUndefined();
+  });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterFrontmatter,
+  FrontmatterFilter,
+  isPushedKey,
+  mergePulledFrontmatter,
+} from '../src/frontmatter-filter';
+
+describe('frontmatter filter', () => {
+  const exclude: FrontmatterFilter = {
+    mode: 'exclude',
+    keys: ['aliases', 'cssclasses'],
+  };
+  const include: FrontmatterFilter = { mode: 'include', keys: ['tags'] };
+
+  it('should never push sync metadata or plugin settings', () => {
+    const everything: FrontmatterFilter = {
+      mode: 'include',
+      keys: ['url', 'lastSync', 'teamPath', 'hackmd-read', 'autoPush'],
+    };
+
+    for (const key of everything.keys) {
+      expect(isPushedKey(key, everything)).toBe(false);
+    }
+  });
+
+  it('should always push the title', () => {
+    expect(isPushedKey('title', include)).toBe(true);
+    expect(isPushedKey('title', { mode: 'exclude', keys: ['title'] })).toBe(
+      true
+    );
+  });
+
+  it('should push the keys the filter allows', () => {
+    // GIVEN - a note with sync metadata and Obsidian-only keys
+    const frontmatter = {
+      title: 'Plan',
+      url: 'https://hackmd.io/abc',
+      lastSync: '2025-01-01T00:00:00.000Z',
+      aliases: ['Roadmap'],
+      tags: ['work'],
+      lang: 'en',
+    };
+
+    // WHEN/THEN - each mode keeps only the keys it allows
+    expect(filterFrontmatter(frontmatter, exclude)).toEqual({
+      title: 'Plan',
+      tags: ['work'],
+      lang: 'en',
+    });
+    expect(filterFrontmatter(frontmatter, include)).toEqual({
+      title: 'Plan',
+      tags: ['work'],
+    });
+  });
+
+  it('should restore the local keys on pull', () => {
+    // GIVEN - a remote note with edited tags and stale sync metadata
+    const remote = { title: 'Plan', tags: ['shared'], url: 'stale' };
+    const local = {
+      title: 'Plan',
+      url: 'https://hackmd.io/abc',
+      aliases: ['Roadmap'],
+      tags: ['work'],
+    };
+
+    // WHEN - merging the frontmatter of the pulled note
+    const merged = mergePulledFrontmatter(remote, local, exclude);
+
+    // THEN - pushed keys come from the remote, the others from the vault
+    expect(merged).toEqual({
+      title: 'Plan',
+      url: 'https://hackmd.io/abc',
+      aliases: ['Roadmap'],
+      tags: ['shared'],
+    });
+  });
+
+  it('should keep local keys when the remote has no frontmatter', () => {
+    expect(mergePulledFrontmatter(null, { aliases: ['A'] }, exclude)).toEqual({
+      aliases: ['A'],
+    });
+  });
+});
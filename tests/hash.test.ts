@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { hashContent } from '../src/hash';
+
+describe('hashContent', () => {
+  it('should return the same hash for the same content', () => {
+    expect(hashContent('# Note\nBody')).toBe(hashContent('# Note\nBody'));
+  });
+
+  it('should return a different hash when the content changes', () => {
+    expect(hashContent('# Note\nBody')).not.toBe(hashContent('# Note\nBody!'));
+  });
+
+  it('should ignore line ending differences', () => {
+    expect(hashContent('a\r\nb\r\n')).toBe(hashContent('a\nb\n'));
+  });
+
+  it('should return a fixed-length hexadecimal string', () => {
+    expect(hashContent('')).toMatch(/^[0-9a-f]{14}$/);
+  });
+});
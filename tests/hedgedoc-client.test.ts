@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getHedgeDocIdFromUrl,
+  getHedgeDocUrlFromId,
+  HedgeDocClient,
+} from '../src/hedgedoc-client';
+import { MockObsidianService } from './mocks/obsidian-service.mock';
+import { HackMDErrorType } from '../src/types';
+
+describe('HedgeDocClient', () => {
+  const serverUrl = 'https://md.example.com/';
+  let mockObsidianService: MockObsidianService;
+
+  const noteResponse = {
+    content: '# Hello',
+    metadata: {
+      id: 'abc123',
+      primaryAddress: 'hello',
+      title: 'Hello',
+      tags: ['demo'],
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+    },
+  };
+
+  /**
+   * Helper to create an authenticated client instance for testing
+   */
+  async function createAuthenticatedClient(): Promise<HedgeDocClient> {
+    mockObsidianService.mockSuccessfulApiResponse({ username: 'test' });
+    const client = await HedgeDocClient.getInstance(
+      serverUrl,
+      'test-token',
+      mockObsidianService
+    );
+    mockObsidianService.requestUrl.mockReset();
+    return client;
+  }
+
+  beforeEach(() => {
+    mockObsidianService = new MockObsidianService();
+    HedgeDocClient.resetInstance();
+    vi.resetAllMocks();
+  });
+
+  it('should require a server URL and a token', async () => {
+    await expect(
+      HedgeDocClient.getInstance('', 'test-token', mockObsidianService)
+    ).rejects.toMatchObject({ type: HackMDErrorType.HEDGEDOC_NOT_CONFIGURED });
+  });
+
+  it('should verify the token against the public API', async () => {
+    // GIVEN - a server accepting the token
+    mockObsidianService.mockSuccessfulApiResponse({ username: 'test' });
+
+    // WHEN - connecting to it
+    await HedgeDocClient.getInstance(
+      serverUrl,
+      'test-token',
+      mockObsidianService
+    );
+
+    // THEN - the token is sent to the v2 API of the server
+    expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://md.example.com/api/v2/me',
+        headers: expect.objectContaining({
+          Authorization: 'Bearer test-token',
+        }),
+      })
+    );
+  });
+
+  it('should map notes to the shape used by the plugin', async () => {
+    // GIVEN - an existing note
+    const client = await createAuthenticatedClient();
+    mockObsidianService.mockSuccessfulApiResponse(noteResponse);
+
+    // WHEN - fetching it by its address
+    const note = await client.getNote('hello');
+
+    // THEN - it keeps the requested ID and is marked as a HedgeDoc note
+    expect(note).toEqual({
+      id: 'hello',
+      title: 'Hello',
+      tags: ['demo'],
+      content: '# Hello',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      lastChangedAt: '2025-01-02T00:00:00.000Z',
+      provider: 'hedgedoc',
+    });
+  });
+
+  it('should reject notes with an unexpected shape', async () => {
+    // GIVEN - a server serving the note without its metadata
+    const client = await createAuthenticatedClient();
+    mockObsidianService.mockSuccessfulApiResponse({ content: '# Hello' });
+    mockObsidianService.mockSuccessfulApiResponse({ notes: [] });
+
+    // WHEN/THEN - reading and listing notes fail with the field at fault
+    await expect(client.getNote('hello')).rejects.toMatchObject({
+      type: HackMDErrorType.PARSE_ERROR,
+      message: expect.stringContaining(
+        'GET /notes/hello: note.metadata should be an object, got undefined'
+      ),
+    });
+    await expect(client.getNoteList()).rejects.toMatchObject({
+      type: HackMDErrorType.PARSE_ERROR,
+      message: expect.stringContaining('GET /me/notes: notes should be a list'),
+    });
+  });
+
+  it('should create notes from their markdown content', async () => {
+    // GIVEN - an authenticated client
+    const client = await createAuthenticatedClient();
+    mockObsidianService.mockSuccessfulApiResponse(noteResponse);
+
+    // WHEN - creating a note
+    const note = await client.createNote({ content: '# Hello' });
+
+    // THEN - the markdown is posted as is
+    expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://md.example.com/api/v2/notes',
+        method: 'POST',
+        body: '# Hello',
+        headers: expect.objectContaining({ 'Content-Type': 'text/markdown' }),
+      })
+    );
+    expect(note.id).toBe('hello');
+  });
+
+  it('should replace the content of a note on update', async () => {
+    // GIVEN - an authenticated client
+    const client = await createAuthenticatedClient();
+    mockObsidianService.mockSuccessfulApiResponse(noteResponse);
+
+    // WHEN - updating a note
+    await client.updateNote('hello', { content: '# Hello' });
+
+    // THEN - its content endpoint is replaced
+    expect(mockObsidianService.requestUrl).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://md.example.com/api/v2/notes/hello/content',
+        method: 'PUT',
+        body: '# Hello',
+      })
+    );
+  });
+
+  it('should treat deleting a missing note as success', async () => {
+    // GIVEN - a note that no longer exists
+    const client = await createAuthenticatedClient();
+    mockObsidianService.mockFailedApiResponse(404, 'Not Found');
+
+    // WHEN - deleting it
+    const result = await client.deleteNote('gone');
+
+    // THEN - the deletion succeeds
+    expect(result).toBe(true);
+  });
+});
+
+describe('HedgeDoc URLs', () => {
+  const serverUrl = 'https://md.example.com';
+
+  it('should build note URLs on the server', () => {
+    expect(getHedgeDocUrlFromId('hello', `${serverUrl}/`)).toBe(
+      'https://md.example.com/n/hello'
+    );
+  });
+
+  it('should read note IDs from current and legacy URLs', () => {
+    expect(getHedgeDocIdFromUrl(`${serverUrl}/n/hello`, serverUrl)).toBe(
+      'hello'
+    );
+    expect(getHedgeDocIdFromUrl(`${serverUrl}/abc123`, serverUrl)).toBe(
+      'abc123'
+    );
+  });
+
+  it('should ignore URLs of other hosts or without a server', () => {
+    expect(
+      getHedgeDocIdFromUrl('https://hackmd.io/abc123', serverUrl)
+    ).toBeUndefined();
+    expect(getHedgeDocIdFromUrl(`${serverUrl}/n/hello`, '')).toBeUndefined();
+    expect(
+      getHedgeDocIdFromUrl('https://notmd.example.com/n/hello', serverUrl)
+    ).toBeUndefined();
+  });
+});
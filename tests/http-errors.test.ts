@@ -1,7 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { HackMDClient } from '../src/client';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HackMDClient, parseRetryAfter } from '../src/client';
 import { MockObsidianService } from './mocks/obsidian-service.mock';
-import { HackMDErrorType } from '../src/types';
+import { CONSTANTS, HackMDErrorType } from '../src/types';
 
 describe('HackMDClient Error Handling', () => {
   // Avant chaque test, nous allons réinitialiser l'instance singleton pour éviter la contamination entre tests
@@ -9,6 +9,12 @@ describe('HackMDClient Error Handling', () => {
     // Force reset of client instance to avoid test pollution
     HackMDClient.resetInstance();
     vi.resetAllMocks();
+    // Retries wait between attempts
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   describe('HTTP error status handling', () => {
@@ -74,7 +80,7 @@ describe('HackMDClient Error Handling', () => {
         // Configure mock to return success and then error
         mockObsidianService.requestUrl
           .mockResolvedValueOnce(successGetMeResponse)
-          .mockRejectedValueOnce({
+          .mockRejectedValue({
             status,
             message,
           });
@@ -85,14 +91,207 @@ describe('HackMDClient Error Handling', () => {
           mockObsidianService
         );
 
-        await expect(
+        const result = expect(
           client.request('GET', '/api/endpoint')
         ).rejects.toMatchObject({
           type: expectedType,
           statusCode:
             expectedStatusCode !== undefined ? expectedStatusCode : status,
         });
+        await vi.runAllTimersAsync();
+        await result;
       }
     );
   });
+
+  describe('Retries', () => {
+    let mockObsidianService: MockObsidianService;
+    let client: HackMDClient;
+
+    beforeEach(async () => {
+      mockObsidianService = new MockObsidianService();
+      mockObsidianService.mockSuccessfulApiResponse({
+        id: 'user-id',
+        name: 'Test User',
+        userPath: 'test-path',
+      });
+      client = await HackMDClient.getInstance(
+        'test-token',
+        mockObsidianService
+      );
+      mockObsidianService.requestUrl.mockReset();
+    });
+
+    it('should retry server errors of idempotent requests', async () => {
+      // GIVEN - a server failing once
+      mockObsidianService.mockFailedApiResponse(503, 'Service Unavailable');
+      mockObsidianService.mockSuccessfulApiResponse({ id: 'abc' });
+
+      // WHEN - reading a note
+      const request = client.request('GET', '/notes/abc');
+      await vi.runAllTimersAsync();
+
+      // THEN - the second attempt succeeds
+      await expect(request).resolves.toMatchObject({ data: { id: 'abc' } });
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      // GIVEN - a rate limited request
+      mockObsidianService.requestUrl.mockRejectedValueOnce({
+        status: 429,
+        message: 'Too Many Requests',
+        headers: { 'Retry-After': '5' },
+      });
+      mockObsidianService.mockSuccessfulApiResponse({ id: 'abc' });
+
+      // WHEN - creating a note
+      const request = client.request('POST', '/notes', { title: 'New' });
+
+      // THEN - it is resent once the delay has passed
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(request).resolves.toMatchObject({ status: 200 });
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not resend a failed note creation', async () => {
+      mockObsidianService.mockFailedApiResponse(500, 'Server error');
+
+      await expect(
+        client.request('POST', '/notes', { title: 'New' })
+      ).rejects.toMatchObject({
+        type: HackMDErrorType.SERVER_ERROR,
+        attempts: 1,
+      });
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the attempts once retries are exhausted', async () => {
+      // GIVEN - a server that keeps failing
+      mockObsidianService.requestUrl.mockRejectedValue({
+        status: 502,
+        message: 'Bad Gateway',
+      });
+
+      // WHEN - reading a note
+      const result = expect(
+        client.request('GET', '/notes/abc')
+      ).rejects.toMatchObject({
+        type: HackMDErrorType.SERVER_ERROR,
+        attempts: 4,
+        message: expect.stringContaining('gave up after 4 attempts'),
+      });
+      await vi.runAllTimersAsync();
+
+      // THEN - the first request and three retries were sent
+      await result;
+      expect(mockObsidianService.requestUrl).toHaveBeenCalledTimes(4);
+    });
+
+    it('should give up at once when Retry-After is too long', async () => {
+      mockObsidianService.requestUrl.mockRejectedValueOnce({
+        status: 429,
+        message: 'Too Many Requests',
+        headers: { 'retry-after': '3600' },
+      });
+
+      await expect(client.request('GET', '/notes')).rejects.toMatchObject({
+        type: HackMDErrorType.RATE_LIMITED,
+        attempts: 1,
+      });
+    });
+  });
+});
+
+describe('HackMDClient timeouts and cancellation', () => {
+  let mockObsidianService: MockObsidianService;
+  let client: HackMDClient;
+
+  beforeEach(async () => {
+    HackMDClient.resetInstance();
+    vi.useFakeTimers();
+    mockObsidianService = new MockObsidianService();
+    mockObsidianService.mockSuccessfulApiResponse({
+      id: 'user-id',
+      name: 'Test User',
+      userPath: 'test-path',
+    });
+    client = await HackMDClient.getInstance('test-token', mockObsidianService);
+    mockObsidianService.requestUrl.mockReset();
+    // HackMD never answers
+    mockObsidianService.requestUrl.mockReturnValue(new Promise(() => {}));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should give up on requests HackMD does not answer', async () => {
+    // WHEN - HackMD stays silent for too long
+    const result = expect(client.getNote('abc')).rejects.toMatchObject({
+      type: HackMDErrorType.REQUEST_TIMEOUT,
+    });
+    await vi.advanceTimersByTimeAsync(CONSTANTS.DEFAULT_TIMEOUT);
+
+    // THEN - the request fails with a timeout error
+    await result;
+  });
+
+  it('should cancel a request when its signal aborts', async () => {
+    // GIVEN - a pending request
+    const controller = new AbortController();
+    const request = client.getNote('abc', controller.signal);
+
+    // WHEN - the user cancels it
+    controller.abort();
+
+    // THEN - it fails at once
+    await expect(request).rejects.toMatchObject({
+      type: HackMDErrorType.REQUEST_CANCELLED,
+    });
+  });
+
+  it('should cancel every pending request at once', async () => {
+    const first = client.getNote('abc');
+    const second = client.getNoteList();
+
+    HackMDClient.abortAll();
+
+    await expect(first).rejects.toMatchObject({
+      type: HackMDErrorType.REQUEST_CANCELLED,
+    });
+    await expect(second).rejects.toMatchObject({
+      type: HackMDErrorType.REQUEST_CANCELLED,
+    });
+  });
+
+  it('should fail at once when the signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.getNote('abc', controller.signal)
+    ).rejects.toMatchObject({ type: HackMDErrorType.REQUEST_CANCELLED });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read a delay in seconds', () => {
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+  });
+
+  it('should read a date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(
+      parseRetryAfter({ 'Retry-After': 'Mon, 01 Jan 2024 00:00:10 GMT' }, now)
+    ).toBe(10000);
+  });
+
+  it('should ignore missing or invalid headers', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+  });
 });
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffLines,
+  hasConflictMarkers,
+  renderMerge,
+  resolveConflicts,
+  threeWayMerge,
+  unifiedDiff,
+} from '../src/merge';
+
+describe('diffLines', () => {
+  it('should return no hunks for identical content', () => {
+    expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([]);
+  });
+
+  it('should describe replaced lines', () => {
+    // GIVEN - a base and a version with two lines rewritten
+    const base = ['a', 'b', 'c', 'd'];
+    const changed = ['a', 'x', 'e', 'd'];
+
+    // WHEN - diffing them
+    const hunks = diffLines(base, changed);
+
+    // THEN - the hunks turn the base into the changed lines
+    expect(hunks).toEqual([
+      { baseStart: 1, baseEnd: 3, start: 1, end: 3, lines: ['x', 'e'] },
+    ]);
+  });
+
+  it('should keep separate hunks apart', () => {
+    const hunks = diffLines(['a', 'b', 'c', 'd', 'e'], ['A', 'b', 'c', 'd']);
+
+    expect(hunks).toEqual([
+      { baseStart: 0, baseEnd: 1, start: 0, end: 1, lines: ['A'] },
+      { baseStart: 4, baseEnd: 5, start: 4, end: 4, lines: [] },
+    ]);
+  });
+
+  it('should treat a large rewrite as a single hunk', () => {
+    // GIVEN - a long note where every line was rewritten
+    const base = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const changed = base.map(line => `${line} (rewritten)`);
+
+    // WHEN - diffing them
+    const hunks = diffLines(base, changed);
+
+    // THEN - the whole body is replaced at once
+    expect(hunks).toEqual([
+      { baseStart: 0, baseEnd: 20000, start: 0, end: 20000, lines: changed },
+    ]);
+  });
+});
+
+describe('threeWayMerge', () => {
+  const base = ['# Title', '', 'first', 'second', 'third', ''].join('\n');
+
+  it('should combine changes made to different lines', () => {
+    // GIVEN - local edits the first line, remote edits the last one
+    const local = base.replace('first', 'first (local)');
+    const remote = base.replace('third', 'third (remote)');
+
+    // WHEN - merging
+    const result = threeWayMerge(base, local, remote);
+
+    // THEN - both edits are kept without conflicts
+    expect(result.conflicts).toBe(0);
+    expect(renderMerge(result)).toBe(
+      ['# Title', '', 'first (local)', 'second', 'third (remote)', ''].join(
+        '\n'
+      )
+    );
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const changed = base.replace('second', 'same edit');
+
+    const result = threeWayMerge(base, changed, changed);
+
+    expect(result.conflicts).toBe(0);
+    expect(renderMerge(result)).toBe(changed);
+  });
+
+  it('should keep appended content from both sides when it does not overlap', () => {
+    const local = `Intro\n${base}`;
+    const remote = `${base}Appendix\n`;
+
+    const result = threeWayMerge(base, local, remote);
+
+    expect(result.conflicts).toBe(0);
+    expect(renderMerge(result)).toBe(`Intro\n${base}Appendix\n`);
+  });
+
+  it('should report overlapping changes as conflicts', () => {
+    // GIVEN - both sides rewrite the same line differently
+    const local = base.replace('second', 'second (local)');
+    const remote = base.replace('second', 'second (remote)');
+
+    // WHEN - merging
+    const result = threeWayMerge(base, local, remote);
+
+    // THEN - a single conflict is reported with both versions
+    expect(result.conflicts).toBe(1);
+    expect(result.chunks).toContainEqual({
+      type: 'conflict',
+      base: ['second'],
+      local: ['second (local)'],
+      remote: ['second (remote)'],
+    });
+  });
+
+  it('should render conflicts with standard markers', () => {
+    const local = base.replace('second', 'mine');
+    const remote = base.replace('second', 'theirs');
+
+    const rendered = renderMerge(threeWayMerge(base, local, remote));
+
+    expect(rendered).toBe(
+      [
+        '# Title',
+        '',
+        'first',
+        '<<<<<<< Obsidian',
+        'mine',
+        '=======',
+        'theirs',
+        '>>>>>>> HackMD',
+        'third',
+        '',
+      ].join('\n')
+    );
+    expect(hasConflictMarkers(rendered)).toBe(true);
+  });
+
+  it('should treat Windows line endings like Unix ones', () => {
+    const result = threeWayMerge(base, base.replace(/\n/g, '\r\n'), base);
+
+    expect(result.conflicts).toBe(0);
+    expect(renderMerge(result)).toBe(base);
+  });
+});
+
+describe('resolveConflicts', () => {
+  const base = ['intro', 'one', 'middle', 'two', 'outro'].join('\n');
+  const local = base
+    .replace('one', 'one (local)')
+    .replace('two', 'two (local)');
+  const remote = base
+    .replace('one', 'one (remote)')
+    .replace('two', 'two (remote)');
+
+  it('should apply a separate choice to each conflict', () => {
+    // GIVEN - two conflicting regions
+    const result = threeWayMerge(base, local, remote);
+    expect(result.conflicts).toBe(2);
+
+    // WHEN - keeping the local side first, then the remote side
+    const resolved = resolveConflicts(result, ['local', 'remote']);
+
+    // THEN - each region holds the chosen version
+    expect(resolved).toBe(
+      ['intro', 'one (local)', 'middle', 'two (remote)', 'outro'].join('\n')
+    );
+  });
+
+  it('should keep local then remote lines when both are chosen', () => {
+    const result = threeWayMerge(base, local, remote);
+
+    const resolved = resolveConflicts(result, ['both', 'both']);
+
+    expect(resolved).toBe(
+      [
+        'intro',
+        'one (local)',
+        'one (remote)',
+        'middle',
+        'two (local)',
+        'two (remote)',
+        'outro',
+      ].join('\n')
+    );
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('should ignore content without a complete marker block', () => {
+    expect(hasConflictMarkers('=======\nnot a conflict')).toBe(false);
+    expect(hasConflictMarkers('<<<<<<< Obsidian\nhalf a conflict')).toBe(false);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should return no lines for identical content', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toEqual([]);
+  });
+
+  it('should keep context around changes and collapse the rest', () => {
+    // GIVEN - a long text with a single line changed in the middle
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const after = [...before];
+    after[10] = 'changed';
+
+    // WHEN - diffing with one line of context
+    const diff = unifiedDiff(before.join('\n'), after.join('\n'), 1);
+
+    // THEN - unchanged runs are summarized as gaps
+    expect(diff).toEqual([
+      { type: 'gap', count: 9 },
+      { type: 'same', text: 'line 9' },
+      { type: 'removed', text: 'line 10' },
+      { type: 'added', text: 'changed' },
+      { type: 'same', text: 'line 11' },
+      { type: 'gap', count: 8 },
+    ]);
+  });
+});
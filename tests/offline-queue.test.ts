@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OfflineQueue } from '../src/offline-queue';
+import {
+  CONSTANTS,
+  HackMDError,
+  HackMDErrorType,
+  QueuedOperation,
+} from '../src/types';
+
+describe('OfflineQueue', () => {
+  let save: ReturnType<typeof vi.fn>;
+  let isOnline: ReturnType<typeof vi.fn>;
+  let run: ReturnType<typeof vi.fn>;
+  let onDropped: ReturnType<typeof vi.fn>;
+  let queue: OfflineQueue;
+
+  const offline = () => new HackMDError(HackMDErrorType.CONNECTION_FAILED);
+
+  function createQueue(operations: QueuedOperation[] = []): OfflineQueue {
+    return new OfflineQueue(operations, save, isOnline, run, onDropped);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    save = vi.fn().mockResolvedValue(undefined);
+    isOnline = vi.fn().mockResolvedValue(true);
+    run = vi.fn().mockResolvedValue(undefined);
+    onDropped = vi.fn();
+    queue = createQueue();
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.useRealTimers();
+  });
+
+  it('should persist and replay operations in order', async () => {
+    // GIVEN - two queued operations
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+    await queue.enqueue({ type: 'delete', path: 'b.md', noteId: 'b' });
+    expect(save).toHaveBeenLastCalledWith([
+      expect.objectContaining({ type: 'push', path: 'a.md', attempts: 0 }),
+      expect.objectContaining({ type: 'delete', noteId: 'b' }),
+    ]);
+
+    // WHEN - the retry delay elapses while online
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+
+    // THEN - both operations ran in order and the queue is empty
+    expect(run.mock.calls.map(([operation]) => operation.path)).toEqual([
+      'a.md',
+      'b.md',
+    ]);
+    expect(queue.getOperations()).toHaveLength(0);
+  });
+
+  it('should queue a single push per note', async () => {
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+
+    expect(queue.getOperations()).toHaveLength(1);
+  });
+
+  it('should wait longer between attempts while offline', async () => {
+    // GIVEN - HackMD can't be reached
+    isOnline.mockResolvedValue(false);
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+
+    // WHEN - the first two attempts fail
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+    expect(isOnline).toHaveBeenCalledTimes(2);
+
+    // THEN - the next one waits for twice the delay
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+    expect(isOnline).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+    expect(isOnline).toHaveBeenCalledTimes(3);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should check the server of each operation before running it', async () => {
+    // GIVEN - a second operation going to a server that can't be reached
+    isOnline.mockImplementation(async operation => operation.path === 'a.md');
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+    await queue.enqueue({
+      type: 'delete',
+      path: 'b.md',
+      noteId: 'b',
+      provider: 'hedgedoc',
+    });
+
+    // WHEN - replaying
+    await queue.replay();
+
+    // THEN - only the reachable operation ran
+    expect(isOnline).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'b.md', provider: 'hedgedoc' })
+    );
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queue.getOperations()).toEqual([
+      expect.objectContaining({ path: 'b.md' }),
+    ]);
+  });
+
+  it('should keep the operation when the connection drops during replay', async () => {
+    // GIVEN - the operation itself can't reach HackMD
+    run.mockRejectedValueOnce(offline());
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+
+    // WHEN - replaying
+    await queue.replay();
+
+    // THEN - the operation stays queued with its attempt counted
+    expect(queue.getOperations()).toEqual([
+      expect.objectContaining({ path: 'a.md', attempts: 1 }),
+    ]);
+    expect(onDropped).not.toHaveBeenCalled();
+  });
+
+  it('should drop operations that fail for another reason', async () => {
+    const failure = new HackMDError(HackMDErrorType.SYNC_CONFLICT_REMOTE);
+    run.mockRejectedValueOnce(failure);
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+    await queue.enqueue({ type: 'push', path: 'b.md' });
+
+    await queue.replay();
+
+    expect(onDropped).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'a.md' }),
+      failure
+    );
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(queue.getOperations()).toHaveLength(0);
+  });
+
+  it('should not replay cancelled operations', async () => {
+    await queue.enqueue({ type: 'push', path: 'a.md' });
+    const [operation] = queue.getOperations();
+
+    await queue.cancel(operation.id);
+    await vi.advanceTimersByTimeAsync(CONSTANTS.OFFLINE_RETRY_DELAY);
+
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should follow renamed notes', async () => {
+    await queue.enqueue({ type: 'push', path: 'old.md' });
+
+    await queue.rename('old.md', 'new.md');
+
+    expect(queue.getOperations()[0].path).toBe('new.md');
+  });
+});
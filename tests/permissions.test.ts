@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CommentPermissionType,
+  NotePermissionRole,
+  NotePublishType,
+} from '@hackmd/api/dist/type';
+import {
+  getFrontmatterNoteOptions,
+  getFrontmatterPermissions,
+} from '../src/permissions';
+import { HackMDErrorType } from '../src/types';
+
+describe('getFrontmatterPermissions', () => {
+  it('should read the declared permissions', () => {
+    // GIVEN - a note opening itself to everyone
+    const frontmatter = {
+      title: 'Draft',
+      'hackmd-read': 'guest',
+      'hackmd-comment': 'signed_in_users',
+    };
+
+    // WHEN - reading its permissions
+    const permissions = getFrontmatterPermissions(frontmatter);
+
+    // THEN - only the declared keys are returned
+    expect(permissions).toEqual({
+      readPermission: NotePermissionRole.GUEST,
+      commentPermission: CommentPermissionType.SIGNED_IN_USERS,
+    });
+  });
+
+  it('should return nothing without frontmatter', () => {
+    expect(getFrontmatterPermissions(null)).toEqual({});
+  });
+
+  it('should reject unknown permissions', () => {
+    expect(() =>
+      getFrontmatterPermissions({ 'hackmd-write': 'everyone' })
+    ).toThrow(
+      expect.objectContaining({
+        type: HackMDErrorType.INVALID_PERMISSION,
+        message: expect.stringContaining('owner, signed_in, guest'),
+      })
+    );
+  });
+});
+
+describe('getFrontmatterNoteOptions', () => {
+  it('should read the publish type with the permissions', () => {
+    // GIVEN - a note published as slides
+    const frontmatter = { 'hackmd-read': 'guest', 'hackmd-publish': 'slide' };
+
+    // WHEN - reading its options
+    const options = getFrontmatterNoteOptions(frontmatter);
+
+    // THEN - both are enforced on push
+    expect(options).toEqual({
+      readPermission: NotePermissionRole.GUEST,
+      publishType: NotePublishType.SLIDE,
+    });
+  });
+
+  it('should reject unknown publish types', () => {
+    expect(() =>
+      getFrontmatterNoteOptions({ 'hackmd-publish': 'blog' })
+    ).toThrow(
+      expect.objectContaining({
+        type: HackMDErrorType.INVALID_PUBLISH_TYPE,
+        message: expect.stringContaining('edit, view, slide, book'),
+      })
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getPullConflict,
+  isUnknownRemoteChange,
+  pickSyncMetadata,
+  SyncStateStore,
+} from '../src/sync-state';
+import { HackMDErrorType } from '../src/types';
+
+describe('SyncStateStore', () => {
+  let save: ReturnType<typeof vi.fn>;
+  let store: SyncStateStore;
+
+  beforeEach(() => {
+    save = vi.fn().mockResolvedValue(undefined);
+    store = new SyncStateStore({}, save);
+  });
+
+  it('should find entries by HackMD ID and by path', async () => {
+    // GIVEN - a recorded sync
+    await store.update('abc', {
+      path: 'Notes/a.md',
+      url: 'https://hackmd.io/abc',
+      base: 'body',
+    });
+
+    // THEN - the entry is found both ways and persisted
+    expect(store.get('abc')).toMatchObject({ noteId: 'abc', base: 'body' });
+    expect(store.getByPath('Notes/a.md')?.noteId).toBe('abc');
+    expect(save).toHaveBeenCalled();
+  });
+
+  it('should keep a single entry per path when a file is re-linked', async () => {
+    await store.update('old', { path: 'a.md' });
+
+    await store.update('new', { path: 'a.md' });
+
+    expect(store.get('old')).toBeUndefined();
+    expect(store.getByPath('a.md')?.noteId).toBe('new');
+  });
+
+  it('should follow renames and deletions', async () => {
+    // GIVEN - two linked notes
+    await store.update('a', { path: 'a.md' });
+    await store.update('b', { path: 'b.md' });
+
+    // WHEN - one is renamed and the other deleted
+    await store.rename('a.md', 'Folder/a.md');
+    await store.removePath('b.md');
+
+    // THEN - the store reflects the vault
+    expect(store.get('a')?.path).toBe('Folder/a.md');
+    expect(store.get('b')).toBeUndefined();
+  });
+
+  it('should only save remote changes that differ', async () => {
+    await store.update('abc', { path: 'a.md', lastRemoteChange: '2024-01-01' });
+    save.mockClear();
+
+    await store.updateRemoteChanges(
+      new Map([
+        ['abc', '2024-01-01'],
+        ['unknown', '2024-01-02'],
+      ])
+    );
+    expect(save).not.toHaveBeenCalled();
+
+    await store.updateRemoteChanges(new Map([['abc', '2024-01-03']]));
+    expect(store.get('abc')?.lastRemoteChange).toBe('2024-01-03');
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell remote changes the vault does not have', async () => {
+    // GIVEN - a note synced as of a remote change
+    await store.update('abc', {
+      path: 'a.md',
+      knownRemoteChange: '2024-01-01T00:00:00.000Z',
+    });
+
+    // WHEN/THEN - only later changes are unknown, whatever their format
+    const entry = store.get('abc');
+    expect(isUnknownRemoteChange(entry, '2024-01-01T00:00:00Z')).toBe(false);
+    expect(isUnknownRemoteChange(entry, '2024-01-02T00:00:00Z')).toBe(true);
+    expect(isUnknownRemoteChange(undefined, '2024-01-02')).toBeUndefined();
+
+    // AND - a change confirmed to leave the body as synced becomes known
+    await store.confirmRemoteChange('abc', '2024-01-02T00:00:00Z');
+    expect(
+      isUnknownRemoteChange(store.get('abc'), '2024-01-02T00:00:00Z')
+    ).toBe(false);
+  });
+
+  describe('reconcile', () => {
+    it('should adopt newer frontmatter and drop the outdated base', async () => {
+      // GIVEN - an entry older than the note's frontmatter
+      await store.update('abc', {
+        path: 'old.md',
+        lastSync: '2024-01-01T00:00:00.000Z',
+        localHash: 'old',
+        base: 'old body',
+      });
+
+      // WHEN - reconciling with a note synced later on another device
+      await store.reconcile(
+        [
+          {
+            path: 'new.md',
+            noteId: 'abc',
+            metadata: {
+              lastSync: '2024-02-01T00:00:00.000Z',
+              localHash: 'new',
+            },
+          },
+        ],
+        () => true
+      );
+
+      // THEN - the frontmatter wins and the base is no longer trusted
+      expect(store.get('abc')).toMatchObject({
+        path: 'new.md',
+        lastSync: '2024-02-01T00:00:00.000Z',
+        localHash: 'new',
+      });
+      expect(store.get('abc')?.base).toBeUndefined();
+    });
+
+    it('should keep entries whose frontmatter was rewritten', async () => {
+      // GIVEN - two entries missing from the frontmatter scan
+      await store.update('kept', { path: 'kept.md', base: 'body' });
+      await store.update('gone', { path: 'gone.md' });
+
+      // WHEN - only one file still exists
+      await store.reconcile([], path => path === 'kept.md');
+
+      // THEN - the entry of the deleted file is removed
+      expect(store.get('kept')?.base).toBe('body');
+      expect(store.get('gone')).toBeUndefined();
+    });
+
+    it('should add notes linked outside of the plugin', async () => {
+      await store.reconcile(
+        [{ path: 'a.md', noteId: 'abc', metadata: { title: 'A' } }],
+        () => true
+      );
+
+      expect(store.get('abc')).toEqual({
+        noteId: 'abc',
+        path: 'a.md',
+        title: 'A',
+      });
+    });
+  });
+});
+
+describe('pickSyncMetadata', () => {
+  it('should keep only the sync keys', () => {
+    const metadata = pickSyncMetadata({
+      url: 'https://hackmd.io/abc',
+      lastSync: '2024-01-01',
+      tags: ['a'],
+    } as never);
+
+    expect(metadata).toEqual({
+      url: 'https://hackmd.io/abc',
+      lastSync: '2024-01-01',
+    });
+  });
+});
+
+describe('getPullConflict', () => {
+  it('should not blame the remote for local-only changes without a base', () => {
+    // GIVEN - a note edited locally, synced before bases were stored
+    // WHEN/THEN - the pull stops on the local changes
+    expect(getPullConflict(false, false)).toBe(
+      HackMDErrorType.SYNC_CONFLICT_LOCAL
+    );
+    expect(getPullConflict(false, true)).toBe(
+      HackMDErrorType.SYNC_CONFLICT_LOCAL
+    );
+  });
+
+  it('should merge changes on both sides only when the base is known', () => {
+    expect(getPullConflict(true, true)).toBeUndefined();
+    expect(getPullConflict(true, false)).toBe(
+      HackMDErrorType.SYNC_CONFLICT_REMOTE
+    );
+  });
+});
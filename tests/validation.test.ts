@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseNote,
+  parseNoteList,
+  parseTeamList,
+  parseUser,
+} from '../src/validation';
+import { HackMDErrorType } from '../src/types';
+
+describe('API response validation', () => {
+  const note = {
+    id: 'note-id',
+    title: 'Test Note',
+    content: '# Test Content',
+    createdAt: 1700000000000,
+    lastChangedAt: null,
+    tags: ['demo'],
+  };
+
+  it('should keep fields it does not know', () => {
+    // GIVEN - a note with a field added by the API
+    const data = { ...note, viewCount: 3 };
+
+    // WHEN - parsing it
+    const parsed = parseNote(data, 'GET /notes/note-id');
+
+    // THEN - the field is preserved
+    expect(parsed).toMatchObject({ viewCount: 3 });
+  });
+
+  it('should return timestamps as ISO strings', () => {
+    // GIVEN - a note with a timestamp in epoch milliseconds
+    // WHEN - parsing it
+    const parsed = parseNote(note, 'GET /notes/note-id');
+
+    // THEN - it gets the format of the other endpoints
+    expect(parsed).toEqual({
+      ...note,
+      createdAt: '2023-11-14T22:13:20.000Z',
+    });
+  });
+
+  it('should reject a response that is not a list', () => {
+    expect(() => parseNoteList({ notes: [note] }, 'GET /notes')).toThrow(
+      'GET /notes: notes should be a list, got object'
+    );
+  });
+
+  it('should reject a note without content', () => {
+    // GIVEN - a note summary served instead of a note
+    const summary = { ...note, content: undefined };
+
+    // WHEN/THEN - parsing fails with the request and the field
+    expect(() => parseNote(summary, 'GET /notes/note-id')).toThrow(
+      expect.objectContaining({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'GET /notes/note-id: note.content should be a string, got undefined'
+        ),
+      })
+    );
+  });
+
+  it('should name the entry of a list with the wrong shape', () => {
+    // GIVEN - a list whose second note has a numeric ID
+    const notes = [note, { ...note, id: 42 }];
+
+    // WHEN/THEN - parsing fails on that entry
+    expect(() => parseNoteList(notes, 'GET /notes')).toThrow(
+      expect.objectContaining({
+        type: HackMDErrorType.PARSE_ERROR,
+        message: expect.stringContaining(
+          'notes[1].id should be a string, got number'
+        ),
+      })
+    );
+  });
+
+  it('should check teams, including those of the user', () => {
+    const team = { id: 'team-id', name: 'Infra', path: 'infra' };
+    const user = { id: 'user-id', name: 'Test', userPath: 'test' };
+
+    expect(parseTeamList([team], 'GET /teams')).toEqual([team]);
+    expect(() =>
+      parseTeamList([{ ...team, path: null }], 'GET /teams')
+    ).toThrow('teams[0].path should be a string, got null');
+    expect(() =>
+      parseUser({ ...user, teams: [{ id: 'team-id' }] }, 'GET /me')
+    ).toThrow('user.teams[0].name should be a string, got undefined');
+  });
+});
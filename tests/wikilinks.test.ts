@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { LinkConverter, LinkResolver } from '../src/wikilinks';
+
+describe('LinkConverter', () => {
+  // Vault where only "Linked Note" has a remote copy
+  const resolver: LinkResolver = {
+    getNoteUrl: linkpath =>
+      linkpath === 'Linked Note' ? 'https://hackmd.io/abc' : undefined,
+    getLinkText: url =>
+      url === 'https://hackmd.io/abc' ? 'Linked Note' : undefined,
+  };
+  const converter = new LinkConverter(resolver, 'text');
+
+  describe('toRemote', () => {
+    it('should link wikilinks to linked notes', () => {
+      expect(
+        converter.toRemote(
+          'See [[Linked Note]], [[Linked Note|this]] and [[Linked Note#Next Steps]].'
+        )
+      ).toBe(
+        'See [Linked Note](https://hackmd.io/abc), [this](https://hackmd.io/abc) and [Linked Note > Next Steps](https://hackmd.io/abc#Next-Steps).'
+      );
+    });
+
+    it('should apply the fallback to unlinked notes', () => {
+      const body = 'Ask [[Draft|the draft]] about [[Ideas]]';
+
+      expect(converter.toRemote(body)).toBe('Ask the draft about Ideas');
+      expect(new LinkConverter(resolver, 'keep').toRemote(body)).toBe(body);
+    });
+
+    it('should leave embeds and code untouched', () => {
+      const body = [
+        '![[Linked Note]]',
+        '`[[Linked Note]]`',
+        '```',
+        '[[Linked Note]]',
+        '```',
+      ].join('\n');
+
+      expect(converter.toRemote(body)).toBe(body);
+    });
+  });
+
+  describe('toLocal', () => {
+    it('should turn links to linked notes back into wikilinks', () => {
+      // GIVEN - a remote body with links to a vault note and elsewhere
+      const body =
+        '[Linked Note](https://hackmd.io/abc), [this](https://hackmd.io/abc) and [docs](https://example.com)';
+
+      // WHEN - converting it for the vault
+      const local = converter.toLocal(body);
+
+      // THEN - only the links to the vault note become wikilinks
+      expect(local).toBe(
+        '[[Linked Note]], [[Linked Note|this]] and [docs](https://example.com)'
+      );
+    });
+
+    it('should round-trip the links it pushed', () => {
+      const body = '[[Linked Note#Next Steps]] and [[Linked Note|this]]';
+
+      expect(converter.toLocal(converter.toRemote(body))).toBe(body);
+    });
+
+    it('should restore the wikilinks of lines the remote did not change', () => {
+      // GIVEN - a pushed body whose unlinked wikilink became text
+      const local = 'Ask [[Draft|the draft]]\nFirst line';
+      const remote = 'Ask the draft\nFirst line, edited';
+
+      // WHEN - pulling the remote body
+      const pulled = converter.toLocal(remote, [local]);
+
+      // THEN - the unchanged line keeps its wikilink
+      expect(pulled).toBe('Ask [[Draft|the draft]]\nFirst line, edited');
+    });
+  });
+});